@@ -0,0 +1,263 @@
+import { z } from "zod";
+import { storage, type AnalyticsCounts } from "./storage";
+import { isValidTimeZone, localTime, wallClockToDate } from "./schedules";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+// Every zone's UTC offset is a whole number of quarter hours, so 15-minute rollups add up
+// to local hours and days even in zones like Asia/Kolkata or America/St_Johns
+const ROLLUP_BUCKET_MS = 15 * MINUTE_MS;
+const ROLLUP_INTERVAL_MS = 5 * MINUTE_MS;
+// Recomputed on every run so late webhooks, deliveries and resolutions still land in their bucket
+const LOOKBACK_MS = 3 * HOUR_MS;
+// History rebuilt per run while catching up, so a long backfill doesn't hold the database
+const BACKFILL_CHUNK_MS = DAY_MS;
+
+export const GRANULARITIES = ["hour", "day", "week"] as const;
+export type Granularity = typeof GRANULARITIES[number];
+
+// Longest range per granularity, keeping a chart to a few hundred points at most
+const MAX_RANGE_DAYS: Record<Granularity, number> = { hour: 31, day: 366, week: 731 };
+
+export const analyticsQuerySchema = z.object({
+  from: z.coerce.date().default(() => new Date(Date.now() - 7 * DAY_MS)),
+  to: z.coerce.date().default(() => new Date()),
+  granularity: z.enum(GRANULARITIES).default("day"),
+  // Buckets start on the hour, at midnight or at Monday midnight in this zone
+  timezone: z.string().refine(isValidTimeZone, "Unknown timezone").default("UTC"),
+  whatsappAccountId: z.string().uuid().optional(),
+  chatbotId: z.string().uuid().optional(),
+  splitBy: z.enum(["whatsappAccount", "chatbot"]).optional(),
+})
+  .refine(query => query.from < query.to, { message: "from must be before to", path: ["to"] })
+  .refine(query => query.to.getTime() - query.from.getTime() <= MAX_RANGE_DAYS[query.granularity] * DAY_MS, {
+    message: "Range is too long for the granularity",
+    path: ["from"],
+  });
+
+export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
+
+export const METRICS = [
+  "inboundMessages",
+  "outboundMessages",
+  "containmentRate",
+  "fallbackRate",
+  "escalationRate",
+  "avgFirstResponseMs",
+  "avgResolutionMs",
+] as const;
+export type Metric = typeof METRICS[number];
+
+export interface AnalyticsSeries {
+  // Account or chatbot id when split, null for the unsplit series and for activity with no account or bot
+  key: string | null;
+  label: string;
+  // One value per bucket; rates are percentages and null where nothing was measured
+  metrics: Record<Metric, Array<number | null>>;
+  totals: Record<Metric, number | null>;
+}
+
+export interface AnalyticsTimeseries {
+  granularity: Granularity;
+  timezone: string;
+  from: string;
+  to: string;
+  buckets: string[];
+  series: AnalyticsSeries[];
+}
+
+const EMPTY_COUNTS: AnalyticsCounts = {
+  inboundMessages: 0,
+  outboundMessages: 0,
+  botInteractions: 0,
+  fallbacks: 0,
+  escalations: 0,
+  botConversations: 0,
+  containedConversations: 0,
+  firstResponses: 0,
+  firstResponseMsTotal: 0,
+  resolutions: 0,
+  resolutionMsTotal: 0,
+};
+
+function addCounts(a: AnalyticsCounts, b: AnalyticsCounts): AnalyticsCounts {
+  const sum = { ...a };
+  for (const field of Object.keys(EMPTY_COUNTS) as Array<keyof AnalyticsCounts>) {
+    sum[field] += b[field];
+  }
+  return sum;
+}
+
+function ratio(part: number, whole: number, scale = 1): number | null {
+  return whole > 0 ? Math.round((part / whole) * scale * 10) / 10 : null;
+}
+
+export function deriveMetrics(counts: AnalyticsCounts): Record<Metric, number | null> {
+  return {
+    inboundMessages: counts.inboundMessages,
+    outboundMessages: counts.outboundMessages,
+    containmentRate: ratio(counts.containedConversations, counts.botConversations, 100),
+    fallbackRate: ratio(counts.fallbacks, counts.botInteractions, 100),
+    escalationRate: ratio(counts.escalations, counts.botInteractions, 100),
+    avgFirstResponseMs: ratio(counts.firstResponseMsTotal, counts.firstResponses),
+    avgResolutionMs: ratio(counts.resolutionMsTotal, counts.resolutions),
+  };
+}
+
+// Start of the hour, day or Monday-based week containing the instant, in the given zone
+export function bucketStartOf(at: Date, granularity: Granularity, timeZone: string): Date {
+  const { date, day, minutes } = localTime(at, timeZone);
+  if (granularity === "hour") {
+    return new Date(Math.floor(at.getTime() / MINUTE_MS) * MINUTE_MS - (minutes % 60) * MINUTE_MS);
+  }
+  const [year, month, dayOfMonth] = date.split("-").map(Number);
+  const back = granularity === "week" ? (day + 6) % 7 : 0;
+  return wallClockToDate(new Date(Date.UTC(year, month - 1, dayOfMonth - back)), timeZone);
+}
+
+// Consecutive bucket starts covering [from, to); days and weeks follow the zone's DST changes
+export function bucketsBetween(from: Date, to: Date, granularity: Granularity, timeZone: string): Date[] {
+  // Past the next boundary even on a 25-hour day, but short of the one after
+  const step = { hour: HOUR_MS, day: 36 * HOUR_MS, week: 7 * DAY_MS + 36 * HOUR_MS }[granularity];
+  const buckets: Date[] = [];
+  for (let start = bucketStartOf(from, granularity, timeZone); start < to; start = bucketStartOf(new Date(start.getTime() + step), granularity, timeZone)) {
+    buckets.push(start);
+  }
+  return buckets;
+}
+
+// Index of the last bucket starting at or before the instant
+function bucketIndex(buckets: Date[], at: Date): number {
+  let low = 0;
+  let high = buckets.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (buckets[middle] <= at) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+}
+
+async function seriesLabels(userId: string, splitBy: AnalyticsQuery["splitBy"]): Promise<Map<string | null, string>> {
+  if (splitBy === "whatsappAccount") {
+    const accounts = await storage.getWhatsappAccountsByUser(userId);
+    return new Map<string | null, string>([
+      [null, "No WhatsApp account"],
+      ...accounts.map(account => [account.id, account.phoneNumber] as [string, string]),
+    ]);
+  }
+  if (splitBy === "chatbot") {
+    const chatbots = await storage.getChatbotsByUser(userId);
+    return new Map<string | null, string>([
+      [null, "No bot"],
+      ...chatbots.map(chatbot => [chatbot.id, chatbot.name] as [string, string]),
+    ]);
+  }
+  return new Map<string | null, string>([[null, "All"]]);
+}
+
+// Bucketed metrics for a dashboard chart, read from the 15-minute rollups
+export async function getAnalyticsTimeseries(userId: string, query: AnalyticsQuery): Promise<AnalyticsTimeseries> {
+  const buckets = bucketsBetween(query.from, query.to, query.granularity, query.timezone);
+  const rows = await storage.getAnalyticsRollups({
+    userId,
+    from: buckets[0],
+    to: query.to,
+    whatsappAccountId: query.whatsappAccountId,
+    chatbotId: query.chatbotId,
+    splitBy: query.splitBy,
+  });
+
+  const countsByKey = new Map<string | null, AnalyticsCounts[]>();
+  if (!query.splitBy) {
+    countsByKey.set(null, buckets.map(() => EMPTY_COUNTS));
+  }
+  for (const { bucketStart, key, ...counts } of rows) {
+    if (!countsByKey.has(key)) {
+      countsByKey.set(key, buckets.map(() => EMPTY_COUNTS));
+    }
+    const series = countsByKey.get(key)!;
+    const index = bucketIndex(buckets, bucketStart);
+    series[index] = addCounts(series[index], counts);
+  }
+
+  const labels = await seriesLabels(userId, query.splitBy);
+  const series = Array.from(countsByKey.entries()).map(([key, perBucket]) => {
+    const derived = perBucket.map(deriveMetrics);
+    return {
+      key,
+      // Bots and accounts deleted since keep their history under their id
+      label: labels.get(key) ?? key ?? "",
+      metrics: Object.fromEntries(METRICS.map(metric => [metric, derived.map(values => values[metric])])) as AnalyticsSeries["metrics"],
+      totals: deriveMetrics(perBucket.reduce(addCounts, EMPTY_COUNTS)),
+    };
+  });
+  series.sort((a, b) => a.label.localeCompare(b.label));
+
+  return {
+    granularity: query.granularity,
+    timezone: query.timezone,
+    from: query.from.toISOString(),
+    to: query.to.toISOString(),
+    buckets: buckets.map(bucket => bucket.toISOString()),
+    series,
+  };
+}
+
+// Background worker keeping the 15-minute analytics rollups current and backfilling missing history
+export class AnalyticsRollup {
+  private timer: NodeJS.Timeout | null = null;
+  private started = false;
+  private rolledUpTo: Date | null = null;
+
+  start(): void {
+    this.started = true;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(delay: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private async tick(): Promise<void> {
+    this.timer = null;
+    let caughtUp = true;
+
+    try {
+      const end = new Date((Math.floor(Date.now() / ROLLUP_BUCKET_MS) + 1) * ROLLUP_BUCKET_MS);
+      if (!this.rolledUpTo) {
+        // Resume after the last rolled-up bucket, or start from the first message ever stored
+        this.rolledUpTo = (await storage.getLatestAnalyticsRollup()) || (await storage.getEarliestMessageAt()) || end;
+      }
+
+      const from = new Date(Math.floor(Math.min(this.rolledUpTo.getTime(), end.getTime() - LOOKBACK_MS) / ROLLUP_BUCKET_MS) * ROLLUP_BUCKET_MS);
+      const to = new Date(Math.min(from.getTime() + BACKFILL_CHUNK_MS, end.getTime()));
+      await storage.rebuildAnalyticsRollups(from, to);
+      this.rolledUpTo = to;
+      caughtUp = to >= end;
+    } catch (error) {
+      console.error("Analytics rollup error:", error);
+    } finally {
+      if (this.started) {
+        this.schedule(caughtUp ? ROLLUP_INTERVAL_MS : 0);
+      }
+    }
+  }
+}
+
+export const analyticsRollup = new AnalyticsRollup();
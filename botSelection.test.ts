@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { selectChatbot } from "./botSelection";
+import type { Chatbot, Contact } from "@shared/schema";
+
+const ACCOUNT = "account-1";
+const OTHER_ACCOUNT = "account-2";
+
+function bot(id: string, overrides: Partial<Chatbot> = {}): Chatbot {
+  return {
+    id,
+    userId: "user-1",
+    whatsappAccountId: null,
+    name: id,
+    description: null,
+    template: null,
+    isActive: true,
+    priority: 0,
+    schedule: null,
+    contactTags: null,
+    config: null,
+    triggers: null,
+    responses: null,
+    analytics: null,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+function contact(tags: string[]): Contact {
+  return { id: "contact-1", tags } as Contact;
+}
+
+describe("selectChatbot", () => {
+  it("prefers bots bound to the account over workspace-wide ones, whatever their priority", () => {
+    const selection = selectChatbot([bot("global", { priority: 10 }), bot("bound", { whatsappAccountId: ACCOUNT })], ACCOUNT, null);
+    expect(selection.chatbot?.id).toBe("bound");
+    expect(selection.candidates.map(candidate => candidate.chatbotId)).toEqual(["bound", "global"]);
+  });
+
+  it("orders by priority, then the oldest bot, then the id", () => {
+    const bots = [
+      bot("newer", { createdAt: new Date("2026-02-01T00:00:00Z") }),
+      bot("b-same-age"),
+      bot("urgent", { priority: 5 }),
+      bot("a-same-age"),
+    ];
+    const selection = selectChatbot(bots, ACCOUNT, null);
+    expect(selection.candidates.map(candidate => candidate.chatbotId)).toEqual(["urgent", "a-same-age", "b-same-age", "newer"]);
+    expect(selection.chatbot?.id).toBe("urgent");
+  });
+
+  it("skips inactive bots and bots bound to another account", () => {
+    const selection = selectChatbot([
+      bot("inactive", { isActive: false, priority: 2 }),
+      bot("elsewhere", { whatsappAccountId: OTHER_ACCOUNT, priority: 1 }),
+      bot("fallback"),
+    ], ACCOUNT, null);
+    expect(selection.chatbot?.id).toBe("fallback");
+    expect(selection.candidates.find(candidate => candidate.chatbotId === "inactive")?.reasons).toEqual(["inactive"]);
+    expect(selection.candidates.find(candidate => candidate.chatbotId === "elsewhere")?.reasons)
+      .toEqual(["bound to another WhatsApp account"]);
+  });
+
+  it("only lets tagged bots answer contacts with a matching tag, ignoring case", () => {
+    const bots = [bot("vip", { contactTags: ["VIP"], priority: 1 }), bot("default")];
+    expect(selectChatbot(bots, ACCOUNT, contact(["vip"])).chatbot?.id).toBe("vip");
+    expect(selectChatbot(bots, ACCOUNT, contact(["lead"])).chatbot?.id).toBe("default");
+    expect(selectChatbot(bots, ACCOUNT, null).chatbot?.id).toBe("default");
+  });
+
+  it("skips bots outside their activation schedule", () => {
+    const schedule = { timezone: "UTC", windows: [{ days: [1], start: "09:00", end: "17:00" }] };
+    const bots = [bot("office", { schedule, priority: 1 }), bot("after-hours")];
+    expect(selectChatbot(bots, ACCOUNT, null, new Date("2026-01-05T10:00:00Z")).chatbot?.id).toBe("office");
+    expect(selectChatbot(bots, ACCOUNT, null, new Date("2026-01-05T18:00:00Z")).chatbot?.id).toBe("after-hours");
+  });
+
+  it("marks every eligible bot after the first as outranked", () => {
+    const selection = selectChatbot([bot("first", { priority: 1 }), bot("second")], ACCOUNT, null);
+    expect(selection.candidates[1]).toMatchObject({ eligible: true, reasons: ["answers on every WhatsApp account", "outranked by first"] });
+  });
+
+  it("selects nothing when no bot is eligible", () => {
+    expect(selectChatbot([bot("off", { isActive: false })], ACCOUNT, null).chatbot).toBeNull();
+  });
+});
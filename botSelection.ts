@@ -0,0 +1,90 @@
+import { weeklyScheduleSchema, isWithinSchedule } from "./schedules";
+import type { Chatbot, Contact } from "@shared/schema";
+
+export interface BotCandidate {
+  chatbotId: string;
+  name: string;
+  priority: number;
+  whatsappAccountId: string | null;
+  eligible: boolean;
+  reasons: string[];
+}
+
+export interface BotSelection {
+  chatbot: Chatbot | null;
+  // Every bot of the user in the order they were considered, with why each can or can't answer
+  candidates: BotCandidate[];
+}
+
+// Bots bound to the account come before workspace-wide ones, then higher priority, then the oldest bot
+function compareBots(a: Chatbot, b: Chatbot, whatsappAccountId: string): number {
+  const bound = Number(b.whatsappAccountId === whatsappAccountId) - Number(a.whatsappAccountId === whatsappAccountId);
+  if (bound !== 0) {
+    return bound;
+  }
+  const priority = (b.priority ?? 0) - (a.priority ?? 0);
+  if (priority !== 0) {
+    return priority;
+  }
+  const created = (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0);
+  return created !== 0 ? created : a.id.localeCompare(b.id);
+}
+
+function ineligibility(bot: Chatbot, whatsappAccountId: string, contact: Contact | null, at: Date): string[] {
+  const reasons: string[] = [];
+  if (!bot.isActive) {
+    reasons.push("inactive");
+  }
+  if (bot.whatsappAccountId && bot.whatsappAccountId !== whatsappAccountId) {
+    reasons.push("bound to another WhatsApp account");
+  }
+
+  if (bot.schedule) {
+    const schedule = weeklyScheduleSchema.safeParse(bot.schedule);
+    if (!schedule.success) {
+      reasons.push("activation schedule is invalid");
+    } else if (!isWithinSchedule(schedule.data, at)) {
+      reasons.push(`outside its activation schedule (${schedule.data.timezone})`);
+    }
+  }
+
+  const requiredTags = (bot.contactTags || []) as string[];
+  if (requiredTags.length > 0) {
+    const contactTags = ((contact?.tags || []) as string[]).map(tag => tag.toLowerCase());
+    if (!requiredTags.some(tag => contactTags.includes(tag.toLowerCase()))) {
+      reasons.push(`contact has none of the tags ${requiredTags.join(", ")}`);
+    }
+  }
+  return reasons;
+}
+
+// The bot that answers a message to the account: the first eligible one in a fixed order
+export function selectChatbot(
+  bots: Chatbot[],
+  whatsappAccountId: string,
+  contact: Contact | null,
+  at: Date = new Date()
+): BotSelection {
+  const ordered = [...bots].sort((a, b) => compareBots(a, b, whatsappAccountId));
+  let chatbot: Chatbot | null = null;
+
+  const candidates = ordered.map(bot => {
+    const reasons = ineligibility(bot, whatsappAccountId, contact, at);
+    const eligible = reasons.length === 0;
+    if (eligible) {
+      reasons.push(bot.whatsappAccountId ? "bound to this WhatsApp account" : "answers on every WhatsApp account");
+      reasons.push(chatbot ? `outranked by ${chatbot.name}` : "selected");
+      chatbot = chatbot || bot;
+    }
+    return {
+      chatbotId: bot.id,
+      name: bot.name,
+      priority: bot.priority ?? 0,
+      whatsappAccountId: bot.whatsappAccountId,
+      eligible,
+      reasons,
+    };
+  });
+
+  return { chatbot, candidates };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./storage", () => ({ storage: {} }));
+
+import { businessHoursSchema, isOpenAt, nextOpening } from "./businessHours";
+
+const MONDAY = 1;
+const FRIDAY = 5;
+
+function hours(overrides: Record<string, unknown> = {}) {
+  return businessHoursSchema.parse({
+    timezone: "Europe/Madrid",
+    windows: [{ days: [MONDAY, 2, 3, 4, FRIDAY], start: "09:00", end: "18:00" }],
+    ...overrides,
+  });
+}
+
+describe("isOpenAt", () => {
+  it("is open inside a window and closed outside it", () => {
+    // Monday 12 January 2026; Madrid is UTC+1 in winter
+    expect(isOpenAt(hours(), new Date("2026-01-12T08:00:00Z"))).toBe(true);
+    expect(isOpenAt(hours(), new Date("2026-01-12T17:00:00Z"))).toBe(false);
+  });
+
+  it("is closed on a one-off holiday and on a yearly one", () => {
+    const at = new Date("2026-01-06T10:00:00Z");
+    expect(isOpenAt(hours({ holidays: [{ date: "2026-01-06" }] }), at)).toBe(false);
+    expect(isOpenAt(hours({ holidays: [{ date: "01-06", name: "Reyes" }] }), at)).toBe(false);
+    expect(isOpenAt(hours({ holidays: [{ date: "2025-01-06" }] }), at)).toBe(true);
+  });
+});
+
+describe("nextOpening", () => {
+  it("opens later the same day before the first window", () => {
+    expect(nextOpening(hours(), new Date("2026-01-12T06:00:00Z"))?.toISOString()).toBe("2026-01-12T08:00:00.000Z");
+  });
+
+  it("skips the weekend after closing on Friday", () => {
+    // Friday 16 January 2026, 19:00 in Madrid
+    expect(nextOpening(hours(), new Date("2026-01-16T18:00:00Z"))?.toISOString()).toBe("2026-01-19T08:00:00.000Z");
+  });
+
+  it("skips holidays, including ones that recur every year", () => {
+    // Closing on Wednesday 24 December 2025 with Christmas and Boxing Day off
+    const closed = hours({ holidays: [{ date: "12-25" }, { date: "2025-12-26" }] });
+    expect(nextOpening(closed, new Date("2025-12-24T18:00:00Z"))?.toISOString()).toBe("2025-12-29T08:00:00.000Z");
+  });
+
+  it("lands on the local opening time across a daylight saving change", () => {
+    // Madrid moves to UTC+2 early on Sunday 29 March 2026, so Monday opens an hour earlier in UTC
+    expect(nextOpening(hours(), new Date("2026-03-27T18:00:00Z"))?.toISOString()).toBe("2026-03-30T07:00:00.000Z");
+  });
+
+  it("opens on the day the clocks go forward at the right instant", () => {
+    const sunday = hours({ windows: [{ days: [0], start: "10:00", end: "14:00" }] });
+    expect(nextOpening(sunday, new Date("2026-03-28T12:00:00Z"))?.toISOString()).toBe("2026-03-29T08:00:00.000Z");
+  });
+
+  it("is null when every day is a holiday", () => {
+    const everyDay = Array.from({ length: 366 }, (_, index) => {
+      const date = new Date(Date.UTC(2026, 0, 1 + index));
+      return { date: date.toISOString().slice(5, 10) };
+    });
+    expect(nextOpening(hours({ holidays: everyDay }), new Date("2026-01-12T06:00:00Z"))).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { weeklyScheduleSchema, isWithinSchedule, localTime, toMinutes, wallClockToDate } from "./schedules";
+import { DEFAULT_LANGUAGE } from "./language";
+import type { WhatsappAccount } from "@shared/schema";
+
+// How far ahead to look for the next opening past long holiday stretches
+const HORIZON_DAYS = 400;
+
+export const businessHoursSchema = weeklyScheduleSchema.extend({
+  // "2026-12-25" closes that day only, "12-25" closes it every year
+  holidays: z.array(z.object({
+    date: z.string().regex(/^(\d{4}-)?\d{2}-\d{2}$/, "Dates are YYYY-MM-DD or MM-DD"),
+    name: z.string().optional(),
+  })).default([]),
+});
+
+export type BusinessHours = z.infer<typeof businessHoursSchema>;
+
+export interface BusinessStatus {
+  open: boolean;
+  // Next time a window starts, null when hours are not configured or nothing opens within the horizon
+  opensAt: Date | null;
+}
+
+export function isHoliday(hours: BusinessHours, date: string): boolean {
+  return hours.holidays.some(holiday => holiday.date === date || holiday.date === date.slice(5));
+}
+
+export function isOpenAt(hours: BusinessHours, at: Date = new Date()): boolean {
+  return !isHoliday(hours, localTime(at, hours.timezone).date) && isWithinSchedule(hours, at);
+}
+
+export function nextOpening(hours: BusinessHours, at: Date = new Date()): Date | null {
+  const now = localTime(at, hours.timezone);
+  const [year, month, day] = now.date.split("-").map(Number);
+
+  for (let offset = 0; offset <= HORIZON_DAYS; offset++) {
+    // The zone's calendar day, carried in UTC fields
+    const midnight = new Date(Date.UTC(year, month - 1, day + offset));
+    if (isHoliday(hours, midnight.toISOString().slice(0, 10))) {
+      continue;
+    }
+    const starts = hours.windows
+      .filter(window => window.days.includes(midnight.getUTCDay()))
+      .map(window => toMinutes(window.start))
+      .filter(minutes => offset > 0 || minutes > now.minutes)
+      .sort((a, b) => a - b);
+    if (starts.length > 0) {
+      return wallClockToDate(new Date(midnight.getTime() + starts[0] * 60 * 1000), hours.timezone);
+    }
+  }
+  return null;
+}
+
+// Null when the account has no (valid) business hours, which means it is always open
+export function businessHoursFor(account: WhatsappAccount): BusinessHours | null {
+  if (!account.businessHours) {
+    return null;
+  }
+  const parsed = businessHoursSchema.safeParse(account.businessHours);
+  return parsed.success ? parsed.data : null;
+}
+
+export function businessStatus(account: WhatsappAccount, at: Date = new Date()): BusinessStatus {
+  const hours = businessHoursFor(account);
+  if (!hours || isOpenAt(hours, at)) {
+    return { open: true, opensAt: null };
+  }
+  return { open: false, opensAt: nextOpening(hours, at) };
+}
+
+// Whether the business behind the WhatsApp account is open right now
+export async function isBusinessOpen(whatsappAccountId: string | null | undefined, at: Date = new Date()): Promise<boolean> {
+  const account = whatsappAccountId ? await storage.getWhatsappAccount(whatsappAccountId) : undefined;
+  return !account || businessStatus(account, at).open;
+}
+
+// "lunes, 20 de octubre, 09:00" in the business's timezone and the contact's language
+export function formatOpening(opensAt: Date | null, account: WhatsappAccount, language: string | null | undefined): string {
+  const hours = businessHoursFor(account);
+  if (!opensAt || !hours) {
+    return "";
+  }
+  const options: Intl.DateTimeFormatOptions = {
+    timeZone: hours.timezone,
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    hour: "2-digit",
+    minute: "2-digit",
+  };
+  try {
+    return new Intl.DateTimeFormat(language || DEFAULT_LANGUAGE, options).format(opensAt);
+  } catch {
+    return new Intl.DateTimeFormat(DEFAULT_LANGUAGE, options).format(opensAt);
+  }
+}
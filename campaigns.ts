@@ -0,0 +1,190 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { whatsappServices, CustomerServiceWindowError } from "./whatsapp";
+import { buildTemplateMessage, type TemplateParameters } from "./templates";
+import { outboundQueue } from "./sendQueue";
+import type { BroadcastFn } from "./webhookWorker";
+import type { Campaign, CampaignRecipient, CampaignSegment, InsertCampaign, MessageTemplate } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 5000;
+
+export const campaignSegmentSchema = z.object({
+  tags: z.array(z.string().min(1)).optional(),
+  lastActivityAfter: z.string().datetime().optional(),
+  lastActivityBefore: z.string().datetime().optional(),
+});
+
+// Returns a user-facing reason when the campaign has nothing valid to send
+export async function validateCampaignContent(
+  campaign: Pick<InsertCampaign, "userId" | "whatsappAccountId" | "templateId" | "content">
+): Promise<string | null> {
+  if (!campaign.templateId === !campaign.content) {
+    return "A campaign sends either a template or a text message";
+  }
+  if (!campaign.templateId) {
+    return null;
+  }
+
+  const template = await storage.getMessageTemplate(campaign.templateId);
+  if (!template || template.userId !== campaign.userId) {
+    return "Template not found";
+  }
+  if (template.whatsappAccountId !== campaign.whatsappAccountId) {
+    return "Template belongs to a different WhatsApp account";
+  }
+  if (template.status !== "approved") {
+    return `Template is ${template.status}, only approved templates can be sent`;
+  }
+  return null;
+}
+
+// Background worker fanning campaigns out to their segment at each campaign's rate
+export class CampaignRunner {
+  private broadcast: BroadcastFn | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  start(broadcast: BroadcastFn): void {
+    this.broadcast = broadcast;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.broadcast = null;
+  }
+
+  // Pick up a campaign that was just started instead of waiting for the next poll
+  wake(): void {
+    if (this.broadcast && !this.running) {
+      this.schedule(0);
+    }
+  }
+
+  private schedule(delay: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private async tick(): Promise<void> {
+    this.timer = null;
+    this.running = true;
+
+    try {
+      const due = await storage.getDueCampaigns();
+      for (const campaign of due) {
+        try {
+          await this.advance(campaign);
+        } catch (error) {
+          console.error(`Campaign ${campaign.id} error:`, error);
+        }
+      }
+    } catch (error) {
+      console.error("Campaign runner error:", error);
+    } finally {
+      this.running = false;
+      if (this.broadcast) {
+        this.schedule(POLL_INTERVAL_MS);
+      }
+    }
+  }
+
+  private async advance(campaign: Campaign): Promise<void> {
+    if (campaign.status === "scheduled") {
+      campaign = await this.launch(campaign);
+    }
+
+    // Spread the per-minute rate over poll intervals
+    const batchSize = Math.max(1, Math.ceil(((campaign.ratePerMinute || 60) * POLL_INTERVAL_MS) / 60000));
+    const recipients = await storage.getPendingCampaignRecipients(campaign.id, batchSize);
+
+    if (recipients.length === 0) {
+      await storage.updateCampaign(campaign.id, { status: "completed", completedAt: new Date() });
+      return;
+    }
+
+    const template = campaign.templateId ? await storage.getMessageTemplate(campaign.templateId) : undefined;
+    for (const recipient of recipients) {
+      await this.sendToRecipient(campaign, template, recipient);
+    }
+    outboundQueue.wake();
+  }
+
+  // Snapshot the segment when the campaign starts so later contacts aren't pulled in mid-send
+  private async launch(campaign: Campaign): Promise<Campaign> {
+    const segment = (campaign.segment || {}) as CampaignSegment;
+    const contacts = await storage.getSegmentContacts(campaign.userId!, campaign.whatsappAccountId, segment);
+
+    await storage.createCampaignRecipients(contacts.map(contact => ({
+      campaignId: campaign.id,
+      contactId: contact.id,
+      status: contact.optedOut ? "skipped" as const : "pending" as const,
+      error: contact.optedOut ? "Contact opted out" : null,
+    })));
+
+    return await storage.updateCampaign(campaign.id, { status: "running", startedAt: new Date() });
+  }
+
+  private async sendToRecipient(
+    campaign: Campaign,
+    template: MessageTemplate | undefined,
+    recipient: CampaignRecipient
+  ): Promise<void> {
+    // Contacts can opt out while a long campaign is still going
+    const contact = await storage.getContact(recipient.contactId);
+    if (!contact || contact.optedOut) {
+      await storage.updateCampaignRecipient(recipient.id, {
+        status: "skipped",
+        error: contact ? "Contact opted out" : "Contact not found",
+      });
+      return;
+    }
+
+    try {
+      let conversation = await storage.getConversationByContactAndAccount(contact.id, campaign.whatsappAccountId);
+      if (!conversation) {
+        conversation = await storage.createConversation({
+          userId: campaign.userId,
+          contactId: contact.id,
+          whatsappAccountId: campaign.whatsappAccountId,
+          unreadCount: 0,
+        });
+      }
+
+      const service = await whatsappServices.forAccountId(campaign.whatsappAccountId);
+      let message;
+      if (campaign.templateId) {
+        if (!template) {
+          throw new Error("Template not found");
+        }
+        const parameters = (campaign.templateParameters || {}) as TemplateParameters;
+        const { payload, renderedText } = buildTemplateMessage(template, contact, parameters);
+        message = await service.processOutgoingMessage(conversation.id, contact.id, renderedText, "template", {
+          template: { templateId: template.id, payload },
+        });
+      } else {
+        message = await service.processOutgoingMessage(conversation.id, contact.id, campaign.content || "", "text");
+      }
+
+      await storage.updateCampaignRecipient(recipient.id, { status: "queued", messageId: message.id, error: null });
+
+      if (this.broadcast && campaign.userId) {
+        this.broadcast(campaign.userId, { type: "new_message", message });
+      }
+    } catch (error) {
+      // Free-form campaigns only reach contacts whose customer service window is still open
+      const skipped = error instanceof CustomerServiceWindowError;
+      await storage.updateCampaignRecipient(recipient.id, {
+        status: skipped ? "skipped" : "failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+}
+
+export const campaignRunner = new CampaignRunner();
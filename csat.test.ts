@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./storage", () => ({ storage: {} }));
+vi.mock("./whatsapp", () => ({ whatsappServices: {}, getWindowRemainingMs: () => 0 }));
+
+import { parseSatisfactionScore } from "./csat";
+
+describe("parseSatisfactionScore", () => {
+  it("reads the score of a picked survey row, whatever its title", () => {
+    expect(parseSatisfactionScore("⭐⭐⭐ Regular", "csat_3")).toBe(3);
+    expect(parseSatisfactionScore(null, "csat_5")).toBe(5);
+  });
+
+  it("ignores reply ids that are not survey rows", () => {
+    expect(parseSatisfactionScore("Ver catálogo", "menu_2")).toBeNull();
+    expect(parseSatisfactionScore(null, "csat_6")).toBeNull();
+  });
+
+  it.each([
+    ["4", 4],
+    [" 5 ", 5],
+    ["3.", 3],
+    ["4,5", 5],
+    ["4/5", 4],
+    ["4 / 5", 4],
+    ["8 de 10", 4],
+    ["3 out of 5", 3],
+    ["10/10", 5],
+    ["cuatro", 4],
+    ["Dos", 2],
+    ["five!", 5],
+    ["três", 3],
+    ["⭐⭐⭐⭐", 4],
+    ["⭐ ⭐", 2],
+    ["★★★★★", 5],
+    ["4️⃣", 4],
+  ])("accepts %j as %i", (text, score) => {
+    expect(parseSatisfactionScore(text)).toBe(score);
+  });
+
+  it.each([
+    "quiero 2 citas",
+    "I need 3 more",
+    "mesa para dos",
+    "dou um 5",
+    "4 por favor",
+    "⭐⭐⭐⭐ gracias",
+    "gracias",
+    "0",
+    "6",
+    "12/10",
+    "constructor",
+    "",
+    "   ",
+  ])("rejects %j", (text) => {
+    expect(parseSatisfactionScore(text)).toBeNull();
+  });
+
+  it("rejects empty messages", () => {
+    expect(parseSatisfactionScore(null)).toBeNull();
+    expect(parseSatisfactionScore(undefined)).toBeNull();
+  });
+});
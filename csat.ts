@@ -0,0 +1,275 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { whatsappServices, getWindowRemainingMs } from "./whatsapp";
+import { normalizeText } from "./intents";
+import {
+  CSAT_SURVEY_LABELS,
+  DEFAULT_CSAT_QUESTIONS,
+  DEFAULT_CSAT_THANKS,
+  DEFAULT_LANGUAGE,
+  isSupportedLanguage,
+  languageFallbackChain,
+  type SupportedLanguage,
+} from "./language";
+import type { InteractiveContent } from "./interactive";
+import type { BroadcastFn } from "./webhookWorker";
+import type { Contact, Conversation, CsatSurvey, Message, WhatsappAccount } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+type CsatEvent =
+  | { type: "new_message"; message: Message }
+  | { type: "csat_answered"; survey: CsatSurvey };
+
+const REPLY_ID = /^csat_([1-5])$/;
+
+const NUMBER_WORDS: Record<string, number> = {
+  uno: 1, una: 1, one: 1, um: 1, uma: 1,
+  dos: 2, two: 2, dois: 2, duas: 2,
+  tres: 3, three: 3,
+  cuatro: 4, four: 4, quatro: 4,
+  cinco: 5, five: 5,
+};
+
+export const csatSurveyConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  // Survey conversations as soon as an agent resolves them
+  onResolve: z.boolean().default(true),
+  // Survey conversations nobody has written in for this long; null only surveys resolved ones
+  idleMinutes: z.number().int().min(5).max(23 * 60).nullable().default(60),
+  // Answers arriving later than this are handled as ordinary messages
+  responseHours: z.number().int().min(1).max(72).default(24),
+  // Wording by language code; languages left out use the defaults
+  question: z.record(z.string().min(1).max(1024)).default({}),
+  thankYou: z.record(z.string().min(1).max(4096)).default({}),
+});
+
+export type CsatSurveyConfig = z.infer<typeof csatSurveyConfigSchema>;
+
+// Null when the account sends no surveys
+export function csatConfigFor(account: WhatsappAccount): CsatSurveyConfig | null {
+  if (!account.csatSurvey) {
+    return null;
+  }
+  const parsed = csatSurveyConfigSchema.safeParse(account.csatSurvey);
+  return parsed.success && parsed.data.enabled ? parsed.data : null;
+}
+
+function toScore(value: number): number | null {
+  const score = Math.round(value);
+  return score >= 1 && score <= 5 ? score : null;
+}
+
+// Reads a 1-5 score from a picked list row, or from a reply that is nothing but a score: "4", "4/5", "8 de 10",
+// "cuatro", "⭐⭐⭐⭐" or "4️⃣". Anything more ("quiero 2 citas") is an ordinary message and gives null
+export function parseSatisfactionScore(text: string | null | undefined, replyId?: string | null): number | null {
+  const picked = replyId?.match(REPLY_ID);
+  if (picked) {
+    return Number(picked[1]);
+  }
+
+  const answer = normalizeText(text || "").replace(/[\uFE0F\u20E3]/g, "").trim().replace(/[.!]+$/, "");
+  if (!answer) {
+    return null;
+  }
+
+  const number = answer.match(/^\d+(?:[.,]\d+)?$/);
+  if (number) {
+    return toScore(parseFloat(number[0].replace(",", ".")));
+  }
+  const outOf = answer.match(/^(\d+(?:[.,]\d+)?)\s*(?:\/|de|out of|of)\s*(5|10)$/);
+  if (outOf) {
+    return toScore((parseFloat(outOf[1].replace(",", ".")) * 5) / Number(outOf[2]));
+  }
+  if (Object.hasOwn(NUMBER_WORDS, answer)) {
+    return NUMBER_WORDS[answer];
+  }
+  if (/^(?:⭐|★|🌟|\s)+$/.test(answer)) {
+    return toScore((answer.match(/⭐|★|🌟/g) || []).length);
+  }
+  return null;
+}
+
+function supportedLanguage(language: string | null | undefined): SupportedLanguage {
+  return languageFallbackChain(language).find(isSupportedLanguage) || DEFAULT_LANGUAGE;
+}
+
+function pickText(texts: Record<string, string>, defaults: Record<SupportedLanguage, string>, language: string | null | undefined): string {
+  return languageFallbackChain(language).map(code => texts[code]).find(Boolean) || defaults[supportedLanguage(language)];
+}
+
+// Reply buttons stop at three, so the five scores go out as a list
+export function surveyContent(config: CsatSurveyConfig, language: string | null | undefined): InteractiveContent {
+  const labels = CSAT_SURVEY_LABELS[supportedLanguage(language)];
+  return {
+    type: "list",
+    body: { text: pickText(config.question, DEFAULT_CSAT_QUESTIONS, language) },
+    action: {
+      button: labels.button,
+      sections: [{
+        rows: [5, 4, 3, 2, 1].map(score => ({
+          id: `csat_${score}`,
+          title: `${"⭐".repeat(score)} ${labels.scores[score - 1]}`,
+        })),
+      }],
+    },
+  };
+}
+
+// Sends satisfaction surveys after agents resolve conversations or when they go quiet, and records the answers
+export class CsatSurveys {
+  private broadcast: BroadcastFn | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  start(broadcast: BroadcastFn): void {
+    this.broadcast = broadcast;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.broadcast = null;
+  }
+
+  // A failed survey never fails the resolve that triggered it. The agent who handled the conversation is
+  // passed in, since one returned to the bot no longer has an assigned agent
+  async afterResolve(conversation: Conversation, agentId: string): Promise<void> {
+    try {
+      const account = conversation.whatsappAccountId ? await storage.getWhatsappAccount(conversation.whatsappAccountId) : undefined;
+      const config = account && csatConfigFor(account);
+      if (account && config?.onResolve) {
+        await this.send(account, config, conversation, "resolved", agentId);
+      }
+    } catch (error) {
+      console.error(`Satisfaction survey for conversation ${conversation.id} failed:`, error);
+    }
+  }
+
+  // True when the message answered an open survey and needs no further handling
+  async recordAnswer(conversation: Conversation, contact: Contact, message: Message): Promise<boolean> {
+    const survey = await storage.getOpenCsatSurvey(conversation.id);
+    if (!survey) {
+      return false;
+    }
+    const score = parseSatisfactionScore(message.content, message.replyId);
+    if (score === null) {
+      return false;
+    }
+
+    const answered = await storage.updateCsatSurvey(survey.id, { score, answeredAt: new Date() });
+    if (answered.botInteractionId) {
+      await storage.updateBotInteraction(answered.botInteractionId, { satisfactionScore: score });
+    }
+
+    const account = conversation.whatsappAccountId ? await storage.getWhatsappAccount(conversation.whatsappAccountId) : undefined;
+    const config = account ? csatConfigFor(account) : null;
+    const language = contact.preferredLanguage || contact.language;
+    const service = await whatsappServices.forAccountId(conversation.whatsappAccountId);
+    const thanks = await service.processOutgoingMessage(
+      conversation.id,
+      contact.id,
+      pickText(config?.thankYou || {}, DEFAULT_CSAT_THANKS, language)
+    );
+    const automated = await storage.updateMessage(thanks.id, { isFromBot: true });
+
+    this.notify(answered, { type: "new_message", message: automated });
+    this.notify(answered, { type: "csat_answered", survey: answered });
+    return true;
+  }
+
+  private schedule(delay: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private async tick(): Promise<void> {
+    this.timer = null;
+
+    try {
+      for (const account of await storage.getActiveWhatsappAccounts()) {
+        const config = csatConfigFor(account);
+        if (!config?.idleMinutes) {
+          continue;
+        }
+
+        const idleSince = new Date(Date.now() - config.idleMinutes * 60 * 1000);
+        for (const conversation of await storage.getConversationsIdleSince(account.id, idleSince)) {
+          try {
+            await this.send(account, config, conversation, "idle");
+          } catch (error) {
+            console.error(`Satisfaction survey for conversation ${conversation.id} failed:`, error);
+          }
+        }
+      }
+    } catch (error) {
+      console.error("Satisfaction survey worker error:", error);
+    } finally {
+      if (this.broadcast) {
+        this.schedule(POLL_INTERVAL_MS);
+      }
+    }
+  }
+
+  // Rates the agent for handed-off conversations and the bot's last reply otherwise; null when there is nobody to rate
+  private async send(
+    account: WhatsappAccount,
+    config: CsatSurveyConfig,
+    conversation: Conversation,
+    trigger: "resolved" | "idle",
+    resolvedBy?: string
+  ): Promise<CsatSurvey | null> {
+    const contact = conversation.contactId ? await storage.getContact(conversation.contactId) : undefined;
+    if (!contact || contact.optedOut || !conversation.userId || getWindowRemainingMs(conversation) === 0) {
+      return null;
+    }
+
+    const agentHandled = trigger === "resolved" || conversation.status === "handoff";
+    const agentId = agentHandled ? resolvedBy ?? conversation.assignedAgentId : null;
+    const interaction = agentHandled ? undefined : await storage.getUnratedBotInteraction(conversation.id);
+    if (!agentId && !interaction) {
+      return null;
+    }
+
+    const content = surveyContent(config, contact.preferredLanguage || contact.language);
+    const message = await whatsappServices.forAccount(account).processOutgoingMessage(
+      conversation.id,
+      contact.id,
+      content.body.text,
+      "interactive",
+      { interactive: content }
+    );
+    const automated = await storage.updateMessage(message.id, { isFromBot: true });
+
+    const survey = await storage.createCsatSurvey({
+      userId: conversation.userId,
+      conversationId: conversation.id,
+      contactId: contact.id,
+      messageId: message.id,
+      trigger,
+      agentId,
+      chatbotId: interaction?.chatbotId ?? null,
+      botInteractionId: interaction?.id ?? null,
+      expiresAt: new Date(Date.now() + config.responseHours * 60 * 60 * 1000),
+    });
+    this.notify(survey, { type: "new_message", message: automated });
+    return survey;
+  }
+
+  // The workspace owner and the agent being rated
+  private notify(survey: CsatSurvey, payload: CsatEvent): void {
+    if (!this.broadcast) {
+      return;
+    }
+    const recipients = new Set([survey.userId, survey.agentId].filter((id): id is string => Boolean(id)));
+    for (const userId of Array.from(recipients)) {
+      this.broadcast(userId, payload);
+    }
+  }
+}
+
+export const csatSurveys = new CsatSurveys();
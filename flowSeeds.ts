@@ -0,0 +1,227 @@
+import type { FlowDefinition } from "./flows";
+
+// Starting points for new bots, copied into chatbots.config so each business can edit its own answers
+const DEFAULT_REPLY = "Gracias por tu mensaje. ¿Podrías ser más específico sobre lo que necesitas? Estoy aquí para ayudarte.";
+const DEFAULT_REPLY_EN = "Thanks for your message. Could you tell me a bit more about what you need? I'm here to help.";
+const DEFAULT_REPLY_PT = "Obrigado pela sua mensagem. Você poderia ser mais específico sobre o que precisa? Estou aqui para ajudar.";
+
+export const seedFlows: Record<string, FlowDefinition> = {
+  corporate: {
+    start: "default",
+    fallback: "default",
+    defaultLocale: "es",
+    nodes: {
+      greeting: {
+        triggers: ["hola", "buenos días", "buenas tardes", "buenas noches"],
+        message: { text: "¡Hola! Soy el asistente virtual de {{chatbot.name}}. ¿En qué puedo ayudarte hoy?" },
+      },
+      pricing: {
+        triggers: ["precio", "costo", "tarifa", "cuánto cuesta"],
+        message: { text: "Tenemos varios planes disponibles:\n\n📊 Plan Básico: $299/mes\n🚀 Plan Professional: $599/mes\n⭐ Plan Enterprise: $999/mes\n\n¿Te gustaría más información sobre algún plan específico?" },
+      },
+      info: {
+        triggers: ["información", "info", "detalles", "más info"],
+        message: { text: "Somos una empresa líder en soluciones empresariales. Ofrecemos servicios de consultoría, implementación y soporte técnico. ¿Sobre qué aspecto te gustaría saber más?" },
+      },
+      default: {
+        message: { text: DEFAULT_REPLY },
+      },
+    },
+    locales: {
+      en: {
+        nodes: {
+          greeting: {
+            triggers: ["hello", "hi", "good morning", "good afternoon", "good evening"],
+            message: { text: "Hi! I'm the virtual assistant of {{chatbot.name}}. How can I help you today?" },
+          },
+          pricing: {
+            triggers: ["price", "cost", "rate", "how much"],
+            message: { text: "We have several plans available:\n\n📊 Basic Plan: $299/month\n🚀 Professional Plan: $599/month\n⭐ Enterprise Plan: $999/month\n\nWould you like more information about a specific plan?" },
+          },
+          info: {
+            triggers: ["information", "details", "more info"],
+            message: { text: "We are a leading business solutions company offering consulting, implementation and technical support. What would you like to know more about?" },
+          },
+          default: {
+            message: { text: DEFAULT_REPLY_EN },
+          },
+        },
+      },
+      pt: {
+        nodes: {
+          greeting: {
+            triggers: ["olá", "bom dia", "boa tarde", "boa noite"],
+            message: { text: "Olá! Sou o assistente virtual da {{chatbot.name}}. Como posso ajudar você hoje?" },
+          },
+          pricing: {
+            triggers: ["preço", "custo", "tarifa", "quanto custa"],
+            message: { text: "Temos vários planos disponíveis:\n\n📊 Plano Básico: $299/mês\n🚀 Plano Professional: $599/mês\n⭐ Plano Enterprise: $999/mês\n\nGostaria de mais informações sobre algum plano?" },
+          },
+          info: {
+            triggers: ["informação", "detalhes", "mais info"],
+            message: { text: "Somos uma empresa líder em soluções empresariais. Oferecemos consultoria, implementação e suporte técnico. Sobre o que você gostaria de saber mais?" },
+          },
+          default: {
+            message: { text: DEFAULT_REPLY_PT },
+          },
+        },
+      },
+    },
+  },
+  ecommerce: {
+    start: "default",
+    fallback: "default",
+    defaultLocale: "es",
+    nodes: {
+      products: {
+        triggers: ["productos", "catálogo", "qué venden", "disponible"],
+        message: { text: "Contamos con un amplio catálogo de productos. Puedes ver todos nuestros productos en nuestro sitio web o pregúntame por una categoría específica. ¿Qué tipo de producto buscas?" },
+      },
+      orders: {
+        triggers: ["pedido", "orden", "comprar", "ordenar"],
+        message: { text: "Para realizar un pedido puedes:\n1. Visitar nuestro sitio web\n2. Llamar al 123-456-7890\n3. Enviarme los detalles por aquí\n\n¿Cómo prefieres proceder?" },
+      },
+      default: {
+        message: { text: DEFAULT_REPLY },
+      },
+    },
+    locales: {
+      en: {
+        nodes: {
+          products: {
+            triggers: ["products", "catalog", "what do you sell", "available"],
+            message: { text: "We have a wide catalog of products. You can browse them all on our website or ask me about a specific category. What kind of product are you looking for?" },
+          },
+          orders: {
+            triggers: ["order", "buy", "purchase"],
+            message: { text: "To place an order you can:\n1. Visit our website\n2. Call 123-456-7890\n3. Send me the details here\n\nHow would you like to proceed?" },
+          },
+          default: {
+            message: { text: DEFAULT_REPLY_EN },
+          },
+        },
+      },
+      pt: {
+        nodes: {
+          products: {
+            triggers: ["produtos", "catálogo", "o que vendem", "disponível"],
+            message: { text: "Temos um amplo catálogo de produtos. Você pode ver todos no nosso site ou me perguntar sobre uma categoria específica. Que tipo de produto você procura?" },
+          },
+          orders: {
+            triggers: ["pedido", "comprar", "encomenda"],
+            message: { text: "Para fazer um pedido você pode:\n1. Visitar nosso site\n2. Ligar para 123-456-7890\n3. Me enviar os detalhes por aqui\n\nComo prefere continuar?" },
+          },
+          default: {
+            message: { text: DEFAULT_REPLY_PT },
+          },
+        },
+      },
+    },
+  },
+  healthcare: {
+    start: "default",
+    fallback: "default",
+    defaultLocale: "es",
+    nodes: {
+      // Collects the appointment details before an agent confirms the booking
+      appointments: {
+        triggers: ["cita", "turno", "consulta", "agenda"],
+        message: { text: "Con gusto te ayudo a agendar una cita. ¿Cuál es tu nombre completo?" },
+        capture: "nombre",
+        skipIfKnown: true,
+        next: "appointmentDate",
+      },
+      appointmentDate: {
+        message: { text: "¿Para qué fecha te gustaría la cita? (DD/MM/AAAA)" },
+        capture: "fechaCita",
+        format: "date",
+        retry: { text: "No reconocí la fecha. Por favor escríbela como DD/MM/AAAA." },
+        next: "appointmentReason",
+      },
+      appointmentReason: {
+        message: { text: "¿Cuál es el motivo de la consulta?" },
+        capture: "motivoConsulta",
+        next: "appointmentSummary",
+      },
+      appointmentSummary: {
+        message: { text: "Gracias {{nombre}}. Registramos tu solicitud de cita para el {{fechaCita}} ({{motivoConsulta}}).\n\nNuestros horarios: Lun-Vie 8:00-18:00, Sáb 8:00-14:00" },
+        escalate: true,
+      },
+      emergency: {
+        triggers: ["emergencia", "urgente", "urgencia"],
+        message: { text: "🚨 EMERGENCIA: Si tienes una emergencia médica, llama inmediatamente al 911 o dirígete al hospital más cercano.\n\nPara urgencias médicas no críticas: 123-456-7890" },
+      },
+      default: {
+        message: { text: DEFAULT_REPLY },
+      },
+    },
+    locales: {
+      en: {
+        nodes: {
+          appointments: {
+            triggers: ["appointment", "book", "schedule", "visit"],
+            message: { text: "I'd be glad to help you book an appointment. What is your full name?" },
+          },
+          appointmentDate: {
+            message: { text: "What date would you like the appointment on? (DD/MM/YYYY)" },
+            retry: { text: "I didn't recognise that date. Please write it as DD/MM/YYYY." },
+          },
+          appointmentReason: {
+            message: { text: "What is the reason for your visit?" },
+          },
+          appointmentSummary: {
+            message: { text: "Thank you {{nombre}}. We've recorded your appointment request for {{fechaCita}} ({{motivoConsulta}}).\n\nOur hours: Mon-Fri 8:00-18:00, Sat 8:00-14:00" },
+          },
+          emergency: {
+            triggers: ["emergency", "urgent"],
+            message: { text: "🚨 EMERGENCY: If you are having a medical emergency, call 911 immediately or go to the nearest hospital.\n\nFor non-critical urgent care: 123-456-7890" },
+          },
+          default: {
+            message: { text: DEFAULT_REPLY_EN },
+          },
+        },
+      },
+      pt: {
+        nodes: {
+          appointments: {
+            triggers: ["consulta", "agendar", "marcar", "horário"],
+            message: { text: "Posso ajudar você a agendar uma consulta. Qual é o seu nome completo?" },
+          },
+          appointmentDate: {
+            message: { text: "Para qual data você gostaria da consulta? (DD/MM/AAAA)" },
+            retry: { text: "Não reconheci a data. Por favor escreva no formato DD/MM/AAAA." },
+          },
+          appointmentReason: {
+            message: { text: "Qual é o motivo da consulta?" },
+          },
+          appointmentSummary: {
+            message: { text: "Obrigado {{nombre}}. Registramos sua solicitação de consulta para {{fechaCita}} ({{motivoConsulta}}).\n\nNosso horário: Seg-Sex 8:00-18:00, Sáb 8:00-14:00" },
+          },
+          emergency: {
+            triggers: ["emergência", "urgente", "urgência"],
+            message: { text: "🚨 EMERGÊNCIA: Se você está passando por uma emergência médica, ligue imediatamente para 192 ou vá ao hospital mais próximo.\n\nPara urgências não críticas: 123-456-7890" },
+          },
+          default: {
+            message: { text: DEFAULT_REPLY_PT },
+          },
+        },
+      },
+    },
+  },
+};
+
+// Templates without a seed of their own just acknowledge the message
+export const defaultSeedFlow: FlowDefinition = {
+  start: "acknowledge",
+  fallback: "acknowledge",
+  defaultLocale: "es",
+  nodes: {
+    acknowledge: {
+      message: { text: "Gracias por tu mensaje. Un representante se pondrá en contacto contigo pronto." },
+    },
+  },
+  locales: {
+    en: { nodes: { acknowledge: { message: { text: "Thanks for your message. A representative will get in touch with you shortly." } } } },
+    pt: { nodes: { acknowledge: { message: { text: "Obrigado pela sua mensagem. Um representante entrará em contato com você em breve." } } } },
+  },
+};
@@ -0,0 +1,373 @@
+import { z } from "zod";
+import { interactiveContentSchema } from "./interactive";
+import type { Chatbot, Contact } from "@shared/schema";
+import { seedFlows, defaultSeedFlow } from "./flowSeeds";
+import { bestIntent, DEFAULT_INTENT_THRESHOLD, type IntentMatch } from "./intents";
+import { llmConfigSchema } from "./llm";
+import { valueAtPath } from "./placeholders";
+import {
+  DEFAULT_LANGUAGE,
+  DEFAULT_HANDOFF_MESSAGES,
+  DEFAULT_CLOSED_HANDOFF_MESSAGES,
+  DEFAULT_ESCALATION_KEYWORDS,
+  isSupportedLanguage,
+  languageFallbackChain,
+} from "./language";
+
+// Upper bound on nodes visited per inbound message, so a `next` cycle can't loop forever
+const MAX_STEPS = 20;
+
+export const botReplySchema = z.object({
+  text: z.string().min(1).optional(),
+  interactive: interactiveContentSchema.optional(),
+}).refine(reply => reply.text || reply.interactive, { message: "A reply needs text or an interactive message" });
+
+export type BotReply = z.infer<typeof botReplySchema>;
+
+const flowConditionSchema = z.object({
+  keywords: z.array(z.string().min(1)).optional(),
+  replyId: z.string().min(1).optional(),
+  variable: z.string().min(1).optional(),
+  equals: z.string().optional(),
+});
+
+const slotFormatSchema = z.enum(["text", "number", "email", "phone", "date"]);
+
+const flowNodeSchema = z.object({
+  // Jump to this node from anywhere in the flow when the customer's message contains one of these
+  triggers: z.array(z.string().min(1)).optional(),
+  message: botReplySchema.optional(),
+  set: z.record(z.string()).optional(),
+  // Store the customer's next message in this slot before branching; slots are saved to contacts.metadata
+  capture: z.string().min(1).optional(),
+  format: slotFormatSchema.optional(),
+  // Sent instead of `message` when the answer doesn't match `format`
+  retry: botReplySchema.optional(),
+  // Don't ask again for a slot the contact already gave us
+  skipIfKnown: z.boolean().optional(),
+  branches: z.array(z.object({ when: flowConditionSchema, next: z.string().min(1) })).optional(),
+  next: z.string().min(1).optional(),
+  // Go to this node instead while the business is outside its opening hours
+  whenClosed: z.string().min(1).optional(),
+  escalate: z.boolean().optional(),
+});
+
+// Per-locale replacements for node texts, plus extra trigger words in that language
+const flowLocaleSchema = z.object({
+  nodes: z.record(z.object({
+    message: botReplySchema.optional(),
+    retry: botReplySchema.optional(),
+    triggers: z.array(z.string().min(1)).optional(),
+  })).optional(),
+  handoffMessage: z.string().min(1).optional(),
+  closedHandoffMessage: z.string().min(1).optional(),
+  escalationKeywords: z.array(z.string().min(1)).optional(),
+});
+
+export const flowDefinitionSchema = z.object({
+  start: z.string().min(1),
+  // Language the base node texts are written in
+  defaultLocale: z.string().min(2).optional(),
+  locales: z.record(flowLocaleSchema).optional(),
+  handoffMessage: z.string().min(1).optional(),
+  // Used instead of handoffMessage outside business hours; "{{opensAt}}" is the next opening time
+  closedHandoffMessage: z.string().min(1).optional(),
+  escalationKeywords: z.array(z.string().min(1)).optional(),
+  fallback: z.string().min(1).optional(),
+  sessionTimeoutMinutes: z.number().int().positive().optional(),
+  resetKeywords: z.array(z.string().min(1)).optional(),
+  intentThreshold: z.number().min(0).max(1).optional(),
+  synonyms: z.record(z.array(z.string().min(1))).optional(),
+  // Minimum relevance for answering from the knowledge base when no trigger matches
+  knowledgeMinScore: z.number().min(0).max(1).optional(),
+  // Generative replies for messages the flow and knowledge base can't answer
+  llm: llmConfigSchema.optional(),
+  nodes: z.record(flowNodeSchema),
+  replyRoutes: z.record(botReplySchema).optional(),
+}).superRefine((flow, ctx) => {
+  const missing = (id: string | undefined) => id !== undefined && !(id in flow.nodes);
+
+  if (missing(flow.start)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["start"], message: `Unknown node ${flow.start}` });
+  }
+  if (missing(flow.fallback)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["fallback"], message: `Unknown node ${flow.fallback}` });
+  }
+  for (const [id, node] of Object.entries(flow.nodes)) {
+    const targets = [node.next, node.whenClosed, ...(node.branches || []).map(branch => branch.next)];
+    for (const target of targets.filter(missing)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["nodes", id], message: `Unknown node ${target}` });
+    }
+  }
+  for (const [locale, content] of Object.entries(flow.locales || {})) {
+    for (const id of Object.keys(content.nodes || {}).filter(missing)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["locales", locale, "nodes", id], message: `Unknown node ${id}` });
+    }
+  }
+});
+
+export type FlowDefinition = z.infer<typeof flowDefinitionSchema>;
+export type FlowNode = FlowDefinition["nodes"][string];
+
+export interface FlowState {
+  node: string | null;
+  variables: Record<string, string>;
+}
+
+export interface FlowInput {
+  text: string;
+  replyId?: string | null;
+}
+
+export interface FlowResult extends FlowState {
+  replies: BotReply[];
+  escalate: boolean;
+  // Slots answered by this message
+  slots: Record<string, string>;
+  // Trigger node the message matched ("start"/"fallback" when none did) and the matcher's confidence
+  intent: string | null;
+  confidence: number | null;
+}
+
+export const DEFAULT_SESSION_TIMEOUT_MINUTES = 30;
+const DEFAULT_RESET_KEYWORDS = ["reiniciar", "reset", "menu", "restart", "recomeçar"];
+
+const SLOT_PATTERNS: Record<z.infer<typeof slotFormatSchema>, RegExp> = {
+  text: /\S/,
+  number: /^-?\d+([.,]\d+)?$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  phone: /^\+?[\d\s().-]{7,20}$/,
+  date: /^(\d{1,2}[/.-]\d{1,2}([/.-]\d{2,4})?|\d{4}-\d{2}-\d{2})$/,
+};
+
+export function isValidSlotValue(value: string, format: z.infer<typeof slotFormatSchema> = "text"): boolean {
+  return SLOT_PATTERNS[format].test(value.trim());
+}
+
+// Bots without a valid flow of their own run the seed flow for their template,
+// keeping any reply routes configured before flows existed
+export function resolveFlow(chatbot: Chatbot): FlowDefinition {
+  const parsed = flowDefinitionSchema.safeParse(chatbot.config);
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  const replyRoutes = z.record(botReplySchema).safeParse((chatbot.config as { replyRoutes?: unknown } | null)?.replyRoutes);
+  return {
+    ...(seedFlows[chatbot.template || ""] || defaultSeedFlow),
+    replyRoutes: replyRoutes.success ? replyRoutes.data : undefined,
+  };
+}
+
+export function seedFlowFor(template: string | null | undefined): FlowDefinition {
+  return structuredClone(seedFlows[template || ""] || defaultSeedFlow);
+}
+
+function localeChain(flow: FlowDefinition, language: string | null | undefined): string[] {
+  return languageFallbackChain(language, flow.defaultLocale || DEFAULT_LANGUAGE);
+}
+
+// Resolves node texts for the contact's language through its fallback chain. Triggers from every
+// locale stay active so a customer is understood even before their language has been detected.
+export function localizeFlow(flow: FlowDefinition, language: string | null | undefined): FlowDefinition {
+  const overlays = localeChain(flow, language).map(locale => flow.locales?.[locale]?.nodes || {});
+  const allLocales = Object.values(flow.locales || {});
+
+  const nodes = Object.fromEntries(Object.entries(flow.nodes).map(([id, node]) => {
+    const localized = overlays.map(overlay => overlay[id]).filter(Boolean);
+    const triggers = [...(node.triggers || []), ...allLocales.flatMap(locale => locale.nodes?.[id]?.triggers || [])];
+    return [id, {
+      ...node,
+      message: localized.find(content => content.message)?.message ?? node.message,
+      retry: localized.find(content => content.retry)?.retry ?? node.retry,
+      triggers: triggers.length > 0 ? triggers : undefined,
+    }];
+  }));
+
+  return { ...flow, nodes };
+}
+
+export function handoffMessageFor(flow: FlowDefinition, language: string | null | undefined, open = true): string {
+  const defaultLocale = flow.defaultLocale || DEFAULT_LANGUAGE;
+  const defaults = open ? DEFAULT_HANDOFF_MESSAGES : DEFAULT_CLOSED_HANDOFF_MESSAGES;
+  for (const locale of localeChain(flow, language)) {
+    const content = flow.locales?.[locale];
+    const message = (open ? content?.handoffMessage : content?.closedHandoffMessage)
+      ?? (locale === defaultLocale ? (open ? flow.handoffMessage : flow.closedHandoffMessage) : undefined)
+      ?? (isSupportedLanguage(locale) ? defaults[locale] : undefined);
+    if (message) {
+      return message;
+    }
+  }
+  return defaults[DEFAULT_LANGUAGE];
+}
+
+// Escalation requests are recognised in any language the flow or the defaults know about
+export function escalationKeywordsFor(flow: FlowDefinition): string[] {
+  return [
+    ...(flow.escalationKeywords || []),
+    ...Object.values(flow.locales || {}).flatMap(locale => locale.escalationKeywords || []),
+    ...Object.values(DEFAULT_ESCALATION_KEYWORDS).flat(),
+  ];
+}
+
+function matchesKeywords(flow: FlowDefinition, text: string, keywords: string[]): boolean {
+  const match = bestIntent(text, [{ name: "keywords", keywords }], { synonyms: flow.synonyms });
+  return Boolean(match && match.confidence >= (flow.intentThreshold ?? DEFAULT_INTENT_THRESHOLD));
+}
+
+function matchesCondition(
+  flow: FlowDefinition,
+  condition: z.infer<typeof flowConditionSchema>,
+  input: FlowInput,
+  variables: Record<string, string>
+): boolean {
+  if (condition.replyId !== undefined && condition.replyId !== input.replyId) {
+    return false;
+  }
+  if (condition.keywords && !matchesKeywords(flow, input.text, condition.keywords)) {
+    return false;
+  }
+  if (condition.variable !== undefined && condition.equals !== undefined
+    && (variables[condition.variable] || "").toLowerCase() !== condition.equals.toLowerCase()) {
+    return false;
+  }
+  return true;
+}
+
+// A node waits for the customer's answer when it captures input or branches on it
+function waitsForInput(node: FlowNode): boolean {
+  return Boolean(node.capture || node.branches?.length);
+}
+
+// "{{name}}" reads a slot or flow variable; "{{contact.name}}", "{{chatbot.name}}" and "{{business.opensAt}}" read the context
+export function interpolate(text: string, scope: Record<string, unknown>): string {
+  return text.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, path: string) => {
+    const resolved = valueAtPath(scope, path);
+    return resolved === undefined || resolved === null ? "" : String(resolved);
+  });
+}
+
+function renderReply(reply: BotReply, scope: Record<string, unknown>): BotReply {
+  if (reply.interactive) {
+    return {
+      ...reply,
+      interactive: { ...reply.interactive, body: { text: interpolate(reply.interactive.body.text, scope) } },
+    };
+  }
+  return { text: interpolate(reply.text || "", scope) };
+}
+
+// Picks the node an inbound message leads to: the pending node's answer handling first,
+// then the best trigger above the confidence threshold, then the start node (new session) or fallback (ongoing one)
+function nextNodeFor(
+  flow: FlowDefinition,
+  state: FlowState | null,
+  input: FlowInput,
+  variables: Record<string, string>
+): { nodeId: string | null; match: IntentMatch | null } {
+  const current = state?.node ? flow.nodes[state.node] : undefined;
+
+  if (current && waitsForInput(current)) {
+    if (current.capture) {
+      variables[current.capture] = input.text.trim();
+    }
+    const branch = current.branches?.find(candidate => matchesCondition(flow, candidate.when, input, variables));
+    if (branch) {
+      return { nodeId: branch.next, match: null };
+    }
+    if (current.capture && current.next) {
+      return { nodeId: current.next, match: null };
+    }
+  }
+
+  const intents = Object.entries(flow.nodes)
+    .filter(([, node]) => node.triggers?.length)
+    .map(([id, node]) => ({ name: id, keywords: node.triggers! }));
+  const match = bestIntent(input.text, intents, { synonyms: flow.synonyms });
+  if (match && match.confidence >= (flow.intentThreshold ?? DEFAULT_INTENT_THRESHOLD)) {
+    return { nodeId: match.intent, match };
+  }
+
+  if (!state) {
+    return { nodeId: flow.start, match: { intent: "start", keyword: "", confidence: match?.confidence ?? 0 } };
+  }
+  return { nodeId: flow.fallback || null, match: { intent: "fallback", keyword: "", confidence: match?.confidence ?? 0 } };
+}
+
+function isResetRequest(flow: FlowDefinition, text: string): boolean {
+  const normalized = text.trim().toLowerCase();
+  return (flow.resetKeywords || DEFAULT_RESET_KEYWORDS).some(keyword => keyword.toLowerCase() === normalized);
+}
+
+// Advances a conversation through the flow by one inbound message
+export function runFlow(
+  flow: FlowDefinition,
+  state: FlowState | null,
+  input: FlowInput,
+  context: { contact: Contact; chatbot: Chatbot; business?: { open: boolean; opensAt: string } }
+): FlowResult {
+  // A reset keyword drops the session and starts over from the start node
+  if (isResetRequest(flow, input.text)) {
+    state = null;
+  }
+
+  const variables = { ...(state?.variables || {}) };
+  const metadata = (context.contact.metadata || {}) as Record<string, unknown>;
+  const business = context.business || { open: true, opensAt: "" };
+  const scope = () => ({ ...metadata, ...variables, contact: context.contact, chatbot: context.chatbot, business });
+  const replies: BotReply[] = [];
+  let escalate = false;
+
+  // Ask again, without moving on, when an answer doesn't fit the slot's format
+  const pending = state?.node ? flow.nodes[state.node] : undefined;
+  if (pending?.capture && !isValidSlotValue(input.text, pending.format)) {
+    const retry = pending.retry || pending.message;
+    return {
+      node: state!.node,
+      variables,
+      replies: retry ? [renderReply(retry, scope())] : [],
+      escalate: false,
+      slots: {},
+      intent: null,
+      confidence: null,
+    };
+  }
+
+  const { nodeId: target, match } = nextNodeFor(flow, state, input, variables);
+  let nodeId = target;
+  const slots: Record<string, string> = pending?.capture && pending.capture in variables
+    ? { [pending.capture]: variables[pending.capture] }
+    : {};
+
+  for (let step = 0; nodeId && step < MAX_STEPS; step++) {
+    const node: FlowNode = flow.nodes[nodeId];
+
+    if (node.whenClosed && !business.open) {
+      nodeId = node.whenClosed;
+      continue;
+    }
+
+    const known = node.capture ? variables[node.capture] ?? metadata[node.capture] : undefined;
+    if (node.capture && node.skipIfKnown && known !== undefined && known !== null && known !== "") {
+      variables[node.capture] = String(known);
+      nodeId = node.next || null;
+      continue;
+    }
+
+    Object.assign(variables, node.set || {});
+    escalate = escalate || Boolean(node.escalate);
+
+    if (node.message) {
+      replies.push(renderReply(node.message, scope()));
+    }
+    if (waitsForInput(node) || !node.next) {
+      break;
+    }
+    nodeId = node.next;
+  }
+
+  // The session stays on a node only while that node is waiting for an answer
+  const resting = nodeId && waitsForInput(flow.nodes[nodeId]) ? nodeId : null;
+  return { node: resting, variables, replies, escalate, slots, intent: match?.intent ?? null, confidence: match?.confidence ?? null };
+}
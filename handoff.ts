@@ -0,0 +1,240 @@
+import { storage } from "./storage";
+import { conversationRouter, type RoutingContext } from "./routing";
+import { isBusinessOpen } from "./businessHours";
+import type { BroadcastFn } from "./webhookWorker";
+import type { Conversation } from "@shared/schema";
+
+// A page reload drops the socket for a moment; only reassign if the agent stays away this long
+const OFFLINE_GRACE_MS = parseInt(process.env.AGENT_OFFLINE_GRACE_MS || "60000", 10);
+
+// How often conversations queued while the business was closed are offered to agents already online
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Raised when a conversation is not in a state that allows the requested agent action
+export class HandoffError extends Error {}
+
+// Conversations the bot has handed to humans, and the agent actions that move them along
+export class HandoffQueue {
+  private broadcast: BroadcastFn | null = null;
+  private offlineTimers = new Map<string, NodeJS.Timeout>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  start(broadcast: BroadcastFn): void {
+    this.broadcast = broadcast;
+    this.scheduleSweep();
+  }
+
+  stop(): void {
+    for (const timer of Array.from(this.offlineTimers.values())) {
+      clearTimeout(timer);
+    }
+    this.offlineTimers.clear();
+    if (this.sweepTimer) {
+      clearTimeout(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    this.broadcast = null;
+  }
+
+  // Pauses the bot and routes the conversation to a team, and to an online agent in it when there is one.
+  // Outside business hours it waits in the team queue until agents connect the next working day.
+  // An agent taking the conversation over themselves gets it straight away, whatever the hours
+  async enqueue(
+    conversation: Conversation,
+    reason: string,
+    context: RoutingContext = {},
+    options: { agentId?: string } = {}
+  ): Promise<Conversation> {
+    const team = await conversationRouter.chooseTeam(conversation, context);
+    let agentId = options.agentId ?? null;
+    if (!agentId && team && (await isBusinessOpen(conversation.whatsappAccountId))) {
+      agentId = await conversationRouter.chooseAgent(team.id);
+    }
+
+    const queued = await storage.updateConversation(conversation.id, {
+      status: "handoff",
+      handoffReason: reason,
+      handoffAt: new Date(),
+      teamId: team?.id ?? null,
+      assignedAgentId: agentId,
+      claimedAt: agentId ? new Date() : null,
+      resolvedAt: null,
+    });
+    await this.notify(options.agentId ? "handoff_claimed" : agentId ? "handoff_assigned" : "handoff_queued", queued);
+    return queued;
+  }
+
+  // Owners see their whole workspace; agents the conversations of their teams and any given to them
+  async canHandle(conversation: Conversation, userId: string): Promise<boolean> {
+    if (conversation.userId === userId || conversation.assignedAgentId === userId) {
+      return true;
+    }
+    const agentTeams = await storage.getTeamsByAgent(userId);
+    return conversation.teamId
+      ? agentTeams.some(team => team.id === conversation.teamId)
+      : agentTeams.some(team => team.userId === conversation.userId);
+  }
+
+  async claim(conversation: Conversation, agentId: string): Promise<Conversation> {
+    const claimed = await storage.claimConversation(conversation.id, agentId);
+    if (!claimed) {
+      throw new HandoffError(conversation.status !== "handoff"
+        ? "Conversation is not waiting for an agent"
+        : "Conversation was already claimed by another agent");
+    }
+    await this.notify("handoff_claimed", claimed);
+    return claimed;
+  }
+
+  // Puts a claimed conversation back in the queue for someone else to pick up
+  async release(conversation: Conversation, agentId: string): Promise<Conversation> {
+    if (conversation.status !== "handoff" || conversation.assignedAgentId !== agentId) {
+      throw new HandoffError("Only the agent handling the conversation can release it");
+    }
+    const released = await storage.updateConversation(conversation.id, { assignedAgentId: null, claimedAt: null });
+    await this.notify("handoff_released", released);
+    return released;
+  }
+
+  // Moves a handed-off conversation to another team and/or agent
+  async transfer(conversation: Conversation, target: { teamId: string | null; agentId: string | null }): Promise<Conversation> {
+    if (conversation.status !== "handoff") {
+      throw new HandoffError("Conversation is not handed off to an agent");
+    }
+    const agentId = target.agentId ?? (target.teamId ? await conversationRouter.chooseAgent(target.teamId) : null);
+    const transferred = await storage.updateConversation(conversation.id, {
+      teamId: target.teamId,
+      assignedAgentId: agentId,
+      claimedAt: agentId ? new Date() : null,
+    });
+    await this.notify(agentId ? "handoff_assigned" : "handoff_queued", transferred);
+    return transferred;
+  }
+
+  // Closes the handoff; with returnToBot the bot starts a fresh session on the next message
+  async resolve(conversation: Conversation, agentId: string, returnToBot: boolean): Promise<Conversation> {
+    if (conversation.status !== "handoff") {
+      throw new HandoffError("Conversation is not handed off to an agent");
+    }
+    if (conversation.assignedAgentId && conversation.assignedAgentId !== agentId && conversation.userId !== agentId) {
+      throw new HandoffError("Conversation is being handled by another agent");
+    }
+
+    if (returnToBot) {
+      await storage.deleteBotSession(conversation.id);
+    }
+    // Back with the bot the conversation leaves the agent's queue; resolved ones keep who handled them
+    const resolved = await storage.updateConversation(conversation.id, returnToBot
+      ? { status: "bot", assignedAgentId: null, claimedAt: null, teamId: null, resolvedAt: new Date() }
+      : { status: "resolved", assignedAgentId: conversation.assignedAgentId ?? agentId, resolvedAt: new Date() });
+    await this.notify("handoff_resolved", resolved);
+    return resolved;
+  }
+
+  // An agent coming online picks up whatever is waiting in their teams
+  async agentConnected(agentId: string): Promise<void> {
+    const pending = this.offlineTimers.get(agentId);
+    if (pending) {
+      clearTimeout(pending);
+      this.offlineTimers.delete(agentId);
+    }
+    conversationRouter.setOnline(agentId, true);
+
+    const teamIds = (await storage.getTeamsByAgent(agentId)).map(team => team.id);
+    await this.assignWaiting(teamIds);
+  }
+
+  agentDisconnected(agentId: string): void {
+    conversationRouter.setOnline(agentId, false);
+    // Another tab closing restarts the grace period rather than starting a second reassignment
+    const pending = this.offlineTimers.get(agentId);
+    if (pending) {
+      clearTimeout(pending);
+    }
+    this.offlineTimers.set(agentId, setTimeout(() => {
+      this.offlineTimers.delete(agentId);
+      this.reassignFrom(agentId).catch(error => console.error(`Reassigning conversations of agent ${agentId} failed:`, error));
+    }, OFFLINE_GRACE_MS));
+  }
+
+  // Gives the teams' waiting conversations to their online agents, leaving those of closed businesses queued
+  private async assignWaiting(teamIds: string[]): Promise<void> {
+    for (const conversation of await storage.getUnassignedTeamConversations(teamIds)) {
+      if (!(await isBusinessOpen(conversation.whatsappAccountId))) {
+        continue;
+      }
+      const assignee = await conversationRouter.chooseAgent(conversation.teamId!);
+      if (assignee) {
+        const assigned = await storage.updateConversation(conversation.id, { assignedAgentId: assignee, claimedAt: new Date() });
+        await this.notify("handoff_assigned", assigned);
+      }
+    }
+  }
+
+  private scheduleSweep(): void {
+    if (this.sweepTimer) {
+      clearTimeout(this.sweepTimer);
+    }
+    this.sweepTimer = setTimeout(() => this.sweep(), SWEEP_INTERVAL_MS);
+  }
+
+  // Agents connected since before the business opened never reconnect to trigger assignment,
+  // so the queue is offered to everyone online on a timer
+  private async sweep(): Promise<void> {
+    this.sweepTimer = null;
+    try {
+      const teamIds = new Set<string>();
+      for (const agentId of conversationRouter.onlineAgents()) {
+        for (const team of await storage.getTeamsByAgent(agentId)) {
+          teamIds.add(team.id);
+        }
+      }
+      await this.assignWaiting(Array.from(teamIds));
+    } catch (error) {
+      console.error("Handoff queue sweep error:", error);
+    } finally {
+      if (this.broadcast) {
+        this.scheduleSweep();
+      }
+    }
+  }
+
+  // Hands an offline agent's open threads to teammates, or back to the team queue
+  private async reassignFrom(agentId: string): Promise<void> {
+    if (conversationRouter.isOnline(agentId)) {
+      return;
+    }
+    for (const conversation of await storage.getOpenConversationsByAgent(agentId)) {
+      const assignee = conversation.teamId ? await conversationRouter.chooseAgent(conversation.teamId, agentId) : null;
+      const reassigned = await storage.updateConversation(conversation.id, {
+        assignedAgentId: assignee,
+        claimedAt: assignee ? new Date() : null,
+      });
+      await this.notify(assignee ? "handoff_assigned" : "handoff_queued", reassigned);
+    }
+  }
+
+  // The workspace owner, the assigned agent and everyone on the conversation's team
+  private async notify(type: string, conversation: Conversation): Promise<void> {
+    if (!this.broadcast) {
+      return;
+    }
+    const recipients = new Set<string>();
+    if (conversation.userId) {
+      recipients.add(conversation.userId);
+    }
+    if (conversation.assignedAgentId) {
+      recipients.add(conversation.assignedAgentId);
+    }
+    if (conversation.teamId) {
+      for (const member of await storage.getTeamMembers(conversation.teamId)) {
+        recipients.add(member.agentId);
+      }
+    }
+    for (const userId of Array.from(recipients)) {
+      this.broadcast(userId, { type, conversation });
+    }
+  }
+}
+
+export const handoffQueue = new HandoffQueue();
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { bestIntent, matchIntents, tokenize } from "./intents";
+
+const intents = [
+  { name: "hours", keywords: ["horario"] },
+  { name: "price", keywords: ["precio"] },
+  { name: "greeting", keywords: ["hola"] },
+  { name: "booking", keywords: ["cita"] },
+  { name: "agent", keywords: ["hablar con agente"] },
+];
+
+describe("tokenize", () => {
+  it("strips accents and stems plurals of longer words", () => {
+    expect(tokenize("¿Información de las CITAS?")).toEqual(["informacion", "de", "las", "cita"]);
+  });
+});
+
+describe("bestIntent", () => {
+  it("matches regardless of accents and case", () => {
+    expect(bestIntent("¿Cuál es el HORARIO?", intents)).toEqual({ intent: "hours", keyword: "horario", confidence: 1 });
+  });
+
+  it("tolerates one typo in a longer word", () => {
+    const match = bestIntent("cual es el horaro", intents);
+    expect(match?.intent).toBe("hours");
+    expect(match?.confidence).toBeCloseTo(6 / 7);
+  });
+
+  it("counts a swap of adjacent letters as a single typo", () => {
+    const match = bestIntent("horairo", intents);
+    expect(match?.intent).toBe("hours");
+    expect(match?.confidence).toBeCloseTo(6 / 7);
+  });
+
+  it("rejects more typos than the word length allows", () => {
+    expect(bestIntent("prasi", intents)).toBeNull();
+  });
+
+  it("requires short words to match exactly", () => {
+    expect(bestIntent("a que hora abren", intents)).toBeNull();
+  });
+
+  it("matches plural forms of a keyword", () => {
+    expect(bestIntent("quiero dos citas", intents)?.intent).toBe("booking");
+  });
+
+  it("matches multi-word keywords only as consecutive words", () => {
+    expect(bestIntent("quiero hablar con agente", intents)?.intent).toBe("agent");
+    expect(bestIntent("hablar ahora con un agente", intents)).toBeNull();
+  });
+
+  it("scores synonym matches below the keyword itself", () => {
+    const match = bestIntent("cuanto sale", intents, { synonyms: { precio: ["cuanto sale"] } });
+    expect(match).toEqual({ intent: "price", keyword: "precio", confidence: 0.9 });
+  });
+});
+
+describe("matchIntents", () => {
+  it("orders matches by confidence and keeps declaration order on ties", () => {
+    const matches = matchIntents("hola, horaro y precio", intents);
+    expect(matches.map(match => match.intent)).toEqual(["price", "greeting", "hours"]);
+  });
+});
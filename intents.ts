@@ -0,0 +1,125 @@
+// Below this confidence a message is treated as unmatched and the bot falls back
+export const DEFAULT_INTENT_THRESHOLD = 0.75;
+
+// Score given to a keyword that only matched through one of its synonyms
+const SYNONYM_WEIGHT = 0.9;
+
+export interface Intent {
+  name: string;
+  keywords: string[];
+}
+
+export interface IntentMatch {
+  intent: string;
+  keyword: string;
+  confidence: number;
+}
+
+export interface IntentMatcherOptions {
+  // Alternative wordings per keyword, e.g. { "precio": ["valor", "cuanto sale"] }
+  synonyms?: Record<string, string[]>;
+}
+
+// Lowercases and strips accents so "Información" and "informacion" compare equal
+export function normalizeText(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+// Word tokens with a light plural stem ("citas" -> "cita", "precios" -> "precio")
+export function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(token => (token.length > 4 && token.endsWith("s") ? token.slice(0, -1) : token));
+}
+
+// Optimal string alignment distance: Levenshtein plus adjacent transpositions
+function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// Short words must match exactly, otherwise "hora" would pass for "hola"
+function allowedTypos(length: number): number {
+  return length <= 4 ? 0 : length <= 8 ? 1 : 2;
+}
+
+function tokenSimilarity(token: string, keywordToken: string): number {
+  if (token === keywordToken) {
+    return 1;
+  }
+  const distance = editDistance(token, keywordToken);
+  if (distance > allowedTypos(keywordToken.length)) {
+    return 0;
+  }
+  return 1 - distance / Math.max(token.length, keywordToken.length);
+}
+
+// Best average similarity of the keyword's tokens against any run of consecutive message tokens
+function phraseScore(tokens: string[], phrase: string): number {
+  const phraseTokens = tokenize(phrase);
+  if (phraseTokens.length === 0 || phraseTokens.length > tokens.length) {
+    return 0;
+  }
+
+  let best = 0;
+  for (let start = 0; start + phraseTokens.length <= tokens.length; start++) {
+    let total = 0;
+    for (let offset = 0; offset < phraseTokens.length; offset++) {
+      const similarity = tokenSimilarity(tokens[start + offset], phraseTokens[offset]);
+      if (similarity === 0) {
+        total = 0;
+        break;
+      }
+      total += similarity;
+    }
+    best = Math.max(best, total / phraseTokens.length);
+  }
+  return best;
+}
+
+function keywordScore(tokens: string[], keyword: string, options: IntentMatcherOptions): number {
+  let score = phraseScore(tokens, keyword);
+  for (const synonym of options.synonyms?.[keyword] || []) {
+    score = Math.max(score, phraseScore(tokens, synonym) * SYNONYM_WEIGHT);
+  }
+  return score;
+}
+
+// Every intent with any match, best first
+export function matchIntents(text: string, intents: Intent[], options: IntentMatcherOptions = {}): IntentMatch[] {
+  const tokens = tokenize(text);
+  const matches: IntentMatch[] = [];
+
+  for (const intent of intents) {
+    let best: IntentMatch | null = null;
+    for (const keyword of intent.keywords) {
+      const confidence = keywordScore(tokens, keyword, options);
+      if (confidence > 0 && (!best || confidence > best.confidence)) {
+        best = { intent: intent.name, keyword, confidence };
+      }
+    }
+    if (best) {
+      matches.push(best);
+    }
+  }
+
+  // Stable sort keeps declaration order between equally confident intents
+  return matches.sort((a, b) => b.confidence - a.confidence);
+}
+
+export function bestIntent(text: string, intents: Intent[], options: IntentMatcherOptions = {}): IntentMatch | null {
+  return matchIntents(text, intents, options)[0] || null;
+}
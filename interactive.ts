@@ -0,0 +1,41 @@
+import { z } from "zod";
+
+// Interactive reply buttons and list messages, with the Cloud API's size limits
+const interactiveTextSchema = z.object({ text: z.string().min(1).max(60) });
+
+export const interactiveContentSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("button"),
+    header: interactiveTextSchema.extend({ type: z.literal("text") }).optional(),
+    body: z.object({ text: z.string().min(1).max(1024) }),
+    footer: interactiveTextSchema.optional(),
+    action: z.object({
+      buttons: z.array(z.object({
+        type: z.literal("reply"),
+        reply: z.object({ id: z.string().min(1).max(256), title: z.string().min(1).max(20) }),
+      })).min(1).max(3),
+    }),
+  }),
+  z.object({
+    type: z.literal("list"),
+    header: interactiveTextSchema.extend({ type: z.literal("text") }).optional(),
+    body: z.object({ text: z.string().min(1).max(1024) }),
+    footer: interactiveTextSchema.optional(),
+    action: z.object({
+      button: z.string().min(1).max(20),
+      sections: z.array(z.object({
+        title: z.string().max(24).optional(),
+        rows: z.array(z.object({
+          id: z.string().min(1).max(200),
+          title: z.string().min(1).max(24),
+          description: z.string().max(72).optional(),
+        })).min(1),
+      })).min(1).max(10)
+        .refine(sections => sections.reduce((total, section) => total + section.rows.length, 0) <= 10, {
+          message: "A list message can have at most 10 rows in total",
+        }),
+    }),
+  }),
+]);
+
+export type InteractiveContent = z.infer<typeof interactiveContentSchema>;
@@ -0,0 +1,184 @@
+import { storage } from "./storage";
+import { tokenize } from "./intents";
+import { languageFallbackChain } from "./language";
+import type { KnowledgeArticle, InsertKnowledgeArticle } from "@shared/schema";
+
+// Share of the question's weight an article must cover before the bot answers with it
+export const DEFAULT_KNOWLEDGE_MIN_SCORE = 0.35;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Title words count this many times, so an FAQ question outranks a passing mention in a long document
+const TITLE_WEIGHT = 2;
+
+// Function words in Spanish, English and Portuguese that carry no meaning for retrieval
+const STOPWORDS = new Set([
+  "a", "al", "como", "con", "de", "del", "el", "en", "es", "la", "las", "lo", "los", "me", "mi", "no", "o", "para",
+  "por", "que", "se", "si", "su", "sus", "te", "tu", "un", "una", "y", "ya", "hay", "puedo", "quiero", "tienen",
+  "an", "and", "are", "can", "do", "does", "for", "how", "i", "in", "is", "it", "my", "of", "on", "or", "the", "to",
+  "what", "you", "your", "with", "we",
+  "ao", "com", "da", "do", "e", "em", "na", "no", "os", "um", "uma", "voce", "eu", "meu", "minha", "tem",
+]);
+
+export interface KnowledgeMatch {
+  article: KnowledgeArticle;
+  score: number;
+}
+
+function terms(text: string): string[] {
+  return tokenize(text).filter(token => !STOPWORDS.has(token));
+}
+
+// Okapi BM25 over the given articles. Scores are divided by the query's total idf, so they fall
+// roughly between 0 and 1 and one cutoff works for knowledge bases of any size.
+export function rankArticles(articles: KnowledgeArticle[], query: string): KnowledgeMatch[] {
+  const queryTerms = Array.from(new Set(terms(query)));
+  if (queryTerms.length === 0 || articles.length === 0) {
+    return [];
+  }
+
+  const documents = articles.map(article => {
+    const tokens = [...Array(TITLE_WEIGHT).fill(terms(article.title)).flat(), ...terms(article.content)];
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+    return { article, length: tokens.length, frequencies };
+  });
+
+  const averageLength = documents.reduce((total, document) => total + document.length, 0) / documents.length || 1;
+  const idf = new Map(queryTerms.map(term => {
+    const containing = documents.filter(document => document.frequencies.has(term)).length;
+    return [term, Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5))];
+  }));
+  const queryWeight = queryTerms.reduce((total, term) => total + idf.get(term)!, 0);
+
+  return documents
+    .map(document => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = document.frequencies.get(term) || 0;
+        if (frequency > 0) {
+          const saturation = (frequency * (BM25_K1 + 1))
+            / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * (document.length / averageLength)));
+          score += idf.get(term)! * saturation;
+        }
+      }
+      return { article: document.article, score: Math.min(score / queryWeight, 1) };
+    })
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+// Best article for the question among those written in the contact's language (or no language), if relevant enough
+export async function findKnowledgeAnswer(
+  chatbotId: string,
+  question: string,
+  options: { language?: string | null; defaultLanguage?: string; minScore?: number } = {}
+): Promise<KnowledgeMatch | null> {
+  const chain = languageFallbackChain(options.language, options.defaultLanguage);
+  const articles = (await storage.getKnowledgeArticlesByChatbot(chatbotId))
+    .filter(article => article.isActive && (!article.language || chain.includes(article.language)));
+
+  const [best] = rankArticles(articles, question);
+  return best && best.score >= (options.minScore ?? DEFAULT_KNOWLEDGE_MIN_SCORE) ? best : null;
+}
+
+type ImportedArticle = Pick<InsertKnowledgeArticle, "title" | "content" | "kind" | "tags">;
+
+// Every heading starts an entry; headings phrased as questions become FAQs, the rest document sections
+export function parseMarkdownArticles(markdown: string, fallbackTitle: string): ImportedArticle[] {
+  const articles: ImportedArticle[] = [];
+  let title: string | null = null;
+  let lines: string[] = [];
+
+  const flush = () => {
+    const content = lines.join("\n").trim();
+    if (content) {
+      const heading = title || fallbackTitle;
+      articles.push({ title: heading, content, kind: heading.trim().endsWith("?") ? "faq" : "document" });
+    }
+    lines = [];
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const heading = line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      title = heading[1];
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+
+  return articles;
+}
+
+// RFC 4180 fields: quoted values may contain commas, newlines and doubled quotes
+function parseCsvRows(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && csv[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+// Expects a header row with question/title and answer/content columns, plus optional tags ("a;b")
+export function parseCsvArticles(csv: string): ImportedArticle[] {
+  const [header, ...rows] = parseCsvRows(csv);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  const titleIndex = columns.findIndex(name => name === "question" || name === "title" || name === "pregunta");
+  const contentIndex = columns.findIndex(name => name === "answer" || name === "content" || name === "respuesta");
+  const tagsIndex = columns.indexOf("tags");
+  if (titleIndex === -1 || contentIndex === -1) {
+    throw new Error("CSV needs a question (or title) column and an answer (or content) column");
+  }
+
+  return rows
+    .filter(row => row[titleIndex]?.trim() && row[contentIndex]?.trim())
+    .map(row => ({
+      title: row[titleIndex].trim(),
+      content: row[contentIndex].trim(),
+      kind: "faq" as const,
+      tags: tagsIndex === -1 ? undefined : (row[tagsIndex] || "").split(";").map(tag => tag.trim()).filter(Boolean),
+    }));
+}
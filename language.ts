@@ -0,0 +1,122 @@
+import { tokenize } from "./intents";
+
+export const SUPPORTED_LANGUAGES = ["es", "en", "pt"] as const;
+export type SupportedLanguage = typeof SUPPORTED_LANGUAGES[number];
+
+export const DEFAULT_LANGUAGE: SupportedLanguage = "es";
+
+// Frequent words that tell the three languages apart; words shared by two of them are left out
+const LANGUAGE_MARKERS: Record<SupportedLanguage, string[]> = {
+  es: [
+    "hola", "gracias", "quiero", "necesito", "tengo", "puedo", "usted", "ustedes", "el", "lo", "los", "la", "las",
+    "y", "pero", "una", "un", "del", "cuanto", "cuando", "donde", "hay", "muy", "bueno", "buenos", "buenas",
+    "noche", "si", "yo", "mi", "mis", "precio", "ayuda", "favor", "hablar", "cita", "estoy", "tienen",
+  ],
+  en: [
+    "hello", "hi", "hey", "thanks", "thank", "you", "the", "and", "is", "are", "i", "want", "need", "have", "can",
+    "what", "how", "when", "where", "please", "my", "your", "price", "help", "with", "for", "to", "of", "it",
+    "this", "that", "does", "good", "morning", "afternoon", "evening", "appointment", "yes", "not",
+  ],
+  pt: [
+    "ola", "obrigado", "obrigada", "quero", "preciso", "tenho", "posso", "voce", "voces", "os", "e", "mas",
+    "uma", "um", "da", "dos", "das", "quanto", "quando", "onde", "tem", "muito", "bom", "boa",
+    "noite", "sim", "nao", "eu", "meu", "minha", "preco", "ajuda", "falar", "estou", "isso",
+  ],
+};
+
+// Markers go through the same normalization as messages so plurals and accents line up
+const MARKER_TOKENS = Object.fromEntries(
+  Object.entries(LANGUAGE_MARKERS).map(([language, words]) => [language, new Set(words.flatMap(tokenize))])
+) as Record<SupportedLanguage, Set<string>>;
+
+// Sentence used when a conversation is handed to a human, for flows that don't set their own
+export const DEFAULT_HANDOFF_MESSAGES: Record<SupportedLanguage, string> = {
+  es: "Un agente humano se pondrá en contacto contigo pronto.",
+  en: "A human agent will get in touch with you shortly.",
+  pt: "Um atendente humano entrará em contato com você em breve.",
+};
+
+// Handoff sentence when no agent is around; "{{opensAt}}" is the next opening time
+export const DEFAULT_CLOSED_HANDOFF_MESSAGES: Record<SupportedLanguage, string> = {
+  es: "Nuestro equipo está fuera de horario. Un agente humano te responderá a partir del {{opensAt}}.",
+  en: "Our team is currently away. A human agent will get back to you from {{opensAt}}.",
+  pt: "Nossa equipe está fora do horário de atendimento. Um atendente humano responderá a partir de {{opensAt}}.",
+};
+
+// Auto reply to customers writing outside business hours, for accounts without their own
+export const DEFAULT_AWAY_MESSAGES: Record<SupportedLanguage, string> = {
+  es: "Gracias por escribirnos. En este momento estamos fuera de horario; te responderemos a partir del {{opensAt}}.",
+  en: "Thanks for your message. We're closed right now and will reply from {{opensAt}}.",
+  pt: "Obrigado pela sua mensagem. No momento estamos fora do horário de atendimento; responderemos a partir de {{opensAt}}.",
+};
+
+// Satisfaction survey wording for accounts that don't set their own
+export const DEFAULT_CSAT_QUESTIONS: Record<SupportedLanguage, string> = {
+  es: "¿Cómo calificarías la atención que recibiste? Elige de 1 a 5 estrellas o responde con un número.",
+  en: "How would you rate the help you received? Pick 1 to 5 stars or reply with a number.",
+  pt: "Como você avalia o atendimento que recebeu? Escolha de 1 a 5 estrelas ou responda com um número.",
+};
+
+export const DEFAULT_CSAT_THANKS: Record<SupportedLanguage, string> = {
+  es: "¡Gracias por tu opinión!",
+  en: "Thanks for your feedback!",
+  pt: "Obrigado pela sua opinião!",
+};
+
+// List button and the labels of scores 1 to 5
+export const CSAT_SURVEY_LABELS: Record<SupportedLanguage, { button: string; scores: string[] }> = {
+  es: { button: "Calificar", scores: ["Muy mala", "Mala", "Regular", "Buena", "Excelente"] },
+  en: { button: "Rate", scores: ["Very poor", "Poor", "Okay", "Good", "Excellent"] },
+  pt: { button: "Avaliar", scores: ["Muito ruim", "Ruim", "Regular", "Boa", "Excelente"] },
+};
+
+export const DEFAULT_ESCALATION_KEYWORDS: Record<SupportedLanguage, string[]> = {
+  es: [
+    "hablar con persona", "agente humano", "representante", "supervisor",
+    "queja", "reclamo", "problema serio", "no entiendo", "mal servicio",
+  ],
+  en: [
+    "talk to a person", "human agent", "representative", "supervisor",
+    "complaint", "serious problem", "i don't understand", "bad service",
+  ],
+  pt: [
+    "falar com uma pessoa", "atendente humano", "representante", "supervisor",
+    "reclamação", "problema sério", "não entendo", "mau atendimento",
+  ],
+};
+
+export function isSupportedLanguage(language: string): language is SupportedLanguage {
+  return (SUPPORTED_LANGUAGES as readonly string[]).includes(language);
+}
+
+// Most specific first: "pt-BR" -> ["pt-BR", "pt", <default>]
+export function languageFallbackChain(language: string | null | undefined, defaultLanguage: string = DEFAULT_LANGUAGE): string[] {
+  const chain: string[] = [];
+  if (language) {
+    chain.push(language);
+    const base = language.split("-")[0].toLowerCase();
+    if (base !== language) {
+      chain.push(base);
+    }
+  }
+  chain.push(defaultLanguage);
+  return Array.from(new Set(chain));
+}
+
+// Guesses the language from marker words; null when the message is too short or ambiguous to tell
+export function detectLanguage(text: string): { language: SupportedLanguage; confidence: number } | null {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  const scores = SUPPORTED_LANGUAGES
+    .map(language => ({ language, hits: tokens.filter(token => MARKER_TOKENS[language].has(token)).length }))
+    .sort((a, b) => b.hits - a.hits);
+
+  const [best, runnerUp] = scores;
+  if (best.hits === 0 || best.hits === runnerUp.hits) {
+    return null;
+  }
+  return { language: best.language, confidence: (best.hits - runnerUp.hits) / tokens.length };
+}
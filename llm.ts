@@ -0,0 +1,203 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { bestIntent, DEFAULT_INTENT_THRESHOLD } from "./intents";
+
+const LLM_API_URL = process.env.LLM_API_URL;
+const LLM_API_KEY = process.env.LLM_API_KEY;
+const LLM_MODEL = process.env.LLM_MODEL || "gpt-4o-mini";
+
+export const llmConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  // Overrides LLM_MODEL for this bot
+  model: z.string().min(1).optional(),
+  systemPrompt: z.string().min(1),
+  temperature: z.number().min(0).max(2).default(0.3),
+  maxTokens: z.number().int().positive().max(4096).default(300),
+  // Earlier messages of the conversation sent along with the question
+  historyMessages: z.number().int().min(0).max(50).default(10),
+  // When set, questions that match none of these topics get the rule-based reply instead
+  allowedTopics: z.array(z.string().min(1)).optional(),
+  redactPii: z.boolean().default(true),
+  // Past this the bot gives up on the model and answers from its rules
+  timeoutMs: z.number().int().positive().max(60000).default(8000),
+});
+
+export type LlmConfig = z.infer<typeof llmConfigSchema>;
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmRequest {
+  model?: string;
+  messages: LlmMessage[];
+  temperature: number;
+  maxTokens: number;
+  signal: AbortSignal;
+}
+
+export interface LlmCompletion {
+  text: string;
+  promptTokens: number | null;
+  completionTokens: number | null;
+}
+
+export interface LlmProvider {
+  complete(request: LlmRequest): Promise<LlmCompletion>;
+}
+
+export class LlmError extends Error {}
+
+// Chat completions API as served by OpenAI, Azure, vLLM, Ollama, LM Studio and friends
+export class OpenAICompatibleProvider implements LlmProvider {
+  constructor(
+    private baseUrl: string,
+    private apiKey?: string,
+    private defaultModel: string = LLM_MODEL
+  ) {}
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: request.model || this.defaultModel,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw new LlmError(`LLM request failed with status ${response.status}: ${await response.text()}`);
+    }
+
+    const body = await response.json();
+    const text = body.choices?.[0]?.message?.content;
+    if (typeof text !== "string" || !text.trim()) {
+      throw new LlmError("LLM response had no message content");
+    }
+
+    return {
+      text: text.trim(),
+      promptTokens: body.usage?.prompt_tokens ?? null,
+      completionTokens: body.usage?.completion_tokens ?? null,
+    };
+  }
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Masks emails, card numbers and phone numbers before text leaves for the model
+export function redactPii(text: string): string {
+  return text
+    .replace(/[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi, "[email]")
+    // Long digit runs are card numbers only when the checksum says so; the rest are left to the phone rule
+    .replace(/\b(?:\d[ -]?){12,18}\d\b/g, match => (passesLuhn(match.replace(/\D/g, "")) ? "[card]" : match))
+    // ISO dates have the same shape as dashed phone numbers and are worth keeping
+    .replace(/\+?\d[\d\s().-]{6,}\d/g, match => (/^\d{4}-\d{2}-\d{2}$/.test(match) ? match : "[phone]"));
+}
+
+export interface LlmReply {
+  text: string;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  latencyMs: number;
+}
+
+export interface LlmReplyOptions {
+  conversationId: string;
+  messageId: string;
+  question: string;
+  language?: string | null;
+  intentThreshold?: number;
+  synonyms?: Record<string, string[]>;
+}
+
+export class LlmResponder {
+  constructor(private provider: LlmProvider | null) {}
+
+  isOnTopic(question: string, config: LlmConfig, options: Pick<LlmReplyOptions, "intentThreshold" | "synonyms"> = {}): boolean {
+    if (!config.allowedTopics || config.allowedTopics.length === 0) {
+      return true;
+    }
+    const match = bestIntent(question, [{ name: "topic", keywords: config.allowedTopics }], { synonyms: options.synonyms });
+    return Boolean(match && match.confidence >= (options.intentThreshold ?? DEFAULT_INTENT_THRESHOLD));
+  }
+
+  // Null whenever the model should not or could not answer, so the caller keeps its rule-based reply
+  async reply(config: LlmConfig, options: LlmReplyOptions): Promise<LlmReply | null> {
+    if (!this.provider || !config.enabled || !this.isOnTopic(options.question, config, options)) {
+      return null;
+    }
+
+    const clean = (text: string) => (config.redactPii ? redactPii(text) : text);
+    const history = config.historyMessages > 0
+      ? (await storage.getMessagesByConversation(options.conversationId))
+        .filter(message => message.id !== options.messageId && message.content && message.status !== "scheduled" && message.status !== "failed")
+        .slice(-config.historyMessages)
+      : [];
+
+    const messages: LlmMessage[] = [
+      { role: "system", content: this.systemPrompt(config, options.language) },
+      ...history.map(message => ({
+        role: message.direction === "inbound" ? "user" as const : "assistant" as const,
+        content: clean(message.content!),
+      })),
+      { role: "user", content: clean(options.question) },
+    ];
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), config.timeoutMs);
+    const startTime = Date.now();
+    try {
+      const completion = await this.provider.complete({
+        model: config.model,
+        messages,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        signal: controller.signal,
+      });
+      return { ...completion, latencyMs: Date.now() - startTime };
+    } catch (error) {
+      const reason = controller.signal.aborted ? `timed out after ${config.timeoutMs}ms` : (error as Error).message;
+      console.error(`LLM reply for conversation ${options.conversationId} failed, using rule-based reply:`, reason);
+      return null;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private systemPrompt(config: LlmConfig, language: string | null | undefined): string {
+    const lines = [config.systemPrompt];
+    if (config.allowedTopics && config.allowedTopics.length > 0) {
+      lines.push(`Only answer questions about: ${config.allowedTopics.join(", ")}. Politely decline anything else.`);
+    }
+    if (language) {
+      lines.push(`Reply in the language with code "${language}".`);
+    }
+    lines.push("Keep replies short enough for a WhatsApp message.");
+    return lines.join("\n\n");
+  }
+}
+
+// Without LLM_API_URL every bot stays rule-based
+export const llmResponder = new LlmResponder(LLM_API_URL ? new OpenAICompatibleProvider(LLM_API_URL, LLM_API_KEY) : null);
@@ -0,0 +1,108 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import type { Readable } from "stream";
+
+export type MediaType = "image" | "audio" | "video" | "document";
+
+// Cloud API limits per media type: https://developers.facebook.com/docs/whatsapp/cloud-api/reference/media
+export const MEDIA_LIMITS: Record<MediaType, { maxBytes: number; mimeTypes: string[] }> = {
+  image: {
+    maxBytes: 5 * 1024 * 1024,
+    mimeTypes: ["image/jpeg", "image/png"],
+  },
+  audio: {
+    maxBytes: 16 * 1024 * 1024,
+    mimeTypes: ["audio/aac", "audio/amr", "audio/mpeg", "audio/mp4", "audio/ogg"],
+  },
+  video: {
+    maxBytes: 16 * 1024 * 1024,
+    mimeTypes: ["video/mp4", "video/3gpp"],
+  },
+  document: {
+    maxBytes: 100 * 1024 * 1024,
+    mimeTypes: [
+      "application/pdf",
+      "text/plain",
+      "application/msword",
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      "application/vnd.ms-excel",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "application/vnd.ms-powerpoint",
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    ],
+  },
+};
+
+export function isMediaType(type: string): type is MediaType {
+  return type in MEDIA_LIMITS;
+}
+
+// Returns a user-facing reason when the file can't be sent as the given WhatsApp type
+export function validateMedia(type: MediaType, mimeType: string, size: number): string | null {
+  const limits = MEDIA_LIMITS[type];
+  // Audio MIME types may carry codec parameters, e.g. "audio/ogg; codecs=opus"
+  const baseMimeType = mimeType.split(";")[0].trim().toLowerCase();
+
+  if (!limits.mimeTypes.includes(baseMimeType)) {
+    return `Unsupported ${type} format ${mimeType}; allowed: ${limits.mimeTypes.join(", ")}`;
+  }
+  if (size > limits.maxBytes) {
+    return `${type} exceeds the ${Math.round(limits.maxBytes / (1024 * 1024))} MB limit`;
+  }
+  return null;
+}
+
+// Inbound and uploaded media are kept in our own store and served back through /api/media/:messageId
+export function mediaRoute(messageId: string): string {
+  return `/api/media/${messageId}`;
+}
+
+// Cloud API checksums show up hex- or base64-encoded depending on the endpoint
+export function matchesChecksum(data: Buffer, expected: string): boolean {
+  const digest = createHash("sha256").update(data).digest();
+  return expected === digest.toString("hex") || expected === digest.toString("base64");
+}
+
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  size(key: string): Promise<number | null>;
+  createReadStream(key: string, range?: { start: number; end: number }): Readable;
+}
+
+export class LocalBlobStore implements BlobStore {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid blob key ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async size(key: string): Promise<number | null> {
+    try {
+      const stat = await fs.promises.stat(this.resolve(key));
+      return stat.size;
+    } catch {
+      return null;
+    }
+  }
+
+  createReadStream(key: string, range?: { start: number; end: number }): Readable {
+    return fs.createReadStream(this.resolve(key), range);
+  }
+}
+
+export const blobStore: BlobStore = new LocalBlobStore(process.env.MEDIA_STORAGE_DIR || "uploads/media");
@@ -0,0 +1,7 @@
+// Follows a dotted path such as "contact.metadata.city" through nested objects; undefined where it leads nowhere
+export function valueAtPath(root: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (current, key) => (typeof current === "object" && current !== null ? (current as Record<string, unknown>)[key] : undefined),
+    root
+  );
+}
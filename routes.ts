@@ -1,7 +1,8 @@
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
+import multer from "multer";
 import { WebSocketServer, WebSocket } from "ws";
-import { storage } from "./storage";
+import { storage, type WebhookEventState } from "./storage";
 import { 
   authenticateToken, 
   requireRole, 
@@ -11,13 +12,48 @@ import {
   registerUser,
   type AuthRequest 
 } from "./auth";
-import { whatsappService, chatbotProcessor, WhatsAppService } from "./whatsapp";
-import { insertUserSchema, insertContactSchema, insertMessageSchema, insertChatbotSchema } from "@shared/schema";
+import {
+  whatsappServices,
+  WhatsAppService,
+  CustomerServiceWindowError,
+  withWindowInfo,
+  type OutgoingMedia,
+} from "./whatsapp";
+import { interactiveContentSchema } from "./interactive";
+import { flowDefinitionSchema, seedFlowFor } from "./flows";
+import { rankArticles, parseMarkdownArticles, parseCsvArticles } from "./knowledge";
+import { webhookWorker } from "./webhookWorker";
+import { outboundQueue, resolveSendAt } from "./sendQueue";
+import { templateSync, buildTemplateMessage, validateTemplateComponents, TemplateParameterError } from "./templates";
+import { handoffQueue, HandoffError } from "./handoff";
+import { selectChatbot } from "./botSelection";
+import { weeklyScheduleSchema } from "./schedules";
+import { businessHoursSchema, businessStatus } from "./businessHours";
+import { csatSurveys, csatSurveyConfigSchema } from "./csat";
+import { analyticsRollup, analyticsQuerySchema, getAnalyticsTimeseries } from "./analytics";
+import { campaignRunner, campaignSegmentSchema, validateCampaignContent } from "./campaigns";
+import { MEDIA_LIMITS, blobStore, isMediaType, validateMedia } from "./media";
+import { insertUserSchema, insertContactSchema, insertMessageSchema, insertChatbotSchema, insertMessageTemplateSchema, insertCampaignSchema, insertKnowledgeArticleSchema, insertTeamSchema, insertRoutingRuleSchema } from "@shared/schema";
 import { z } from "zod";
 
 // WebSocket connections map
 const wsConnections = new Map<string, WebSocket>();
 
+// Uploads are buffered in memory and capped at the largest WhatsApp media size
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: Math.max(...Object.values(MEDIA_LIMITS).map(limit => limit.maxBytes)) },
+});
+
+function handleFileUpload(req: Request, res: Response, next: NextFunction) {
+  upload.single("file")(req, res, (error: unknown) => {
+    if (error) {
+      return res.status(400).json({ message: error instanceof Error ? error.message : "Invalid upload" });
+    }
+    next();
+  });
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
@@ -37,10 +73,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           if (decoded) {
             wsConnections.set(decoded.userId, ws);
             ws.send(JSON.stringify({ type: "auth_success" }));
+            await handoffQueue.agentConnected(decoded.userId);
           }
         } else if (message.type === "send_message") {
           // Handle real-time message sending
-          await handleRealtimeMessage(message);
+          await handleRealtimeMessage(ws, message);
         }
       } catch (error) {
         console.error("WebSocket message error:", error);
@@ -52,6 +89,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       for (const [userId, connection] of wsConnections.entries()) {
         if (connection === ws) {
           wsConnections.delete(userId);
+          handoffQueue.agentDisconnected(userId);
           break;
         }
       }
@@ -66,16 +104,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }
 
+  webhookWorker.start(broadcastToUser);
+  outboundQueue.start(broadcastToUser);
+  templateSync.start();
+  analyticsRollup.start();
+  campaignRunner.start(broadcastToUser);
+  handoffQueue.start(broadcastToUser);
+  csatSurveys.start(broadcastToUser);
+
   // Handle real-time message sending
-  async function handleRealtimeMessage(data: any) {
+  async function handleRealtimeMessage(ws: WebSocket, data: any) {
     try {
       const { conversationId, contactId, content, userId } = data;
       
-      const message = await whatsappService.processOutgoingMessage(
+      const service = await whatsappServices.forConversation(conversationId);
+      const message = await service.processOutgoingMessage(
         conversationId,
         contactId,
         content
       );
+      outboundQueue.wake();
 
       // Broadcast to user's other connections
       broadcastToUser(userId, {
@@ -83,6 +131,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         message,
       });
     } catch (error) {
+      if (error instanceof CustomerServiceWindowError) {
+        ws.send(JSON.stringify({
+          type: "send_error",
+          conversationId: data.conversationId,
+          code: error.code,
+          message: error.message,
+        }));
+        return;
+      }
       console.error("Real-time message error:", error);
     }
   }
@@ -177,47 +234,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/webhook", async (req, res) => {
     try {
       const { entry } = req.body;
-      
+
+      // Every phone number referenced by the payload must belong to an account whose app secret signed it
+      const signature = req.get("X-Hub-Signature-256");
+      const rawBody = req.rawBody;
+      const phoneNumberIds = new Set<string>();
+
       for (const item of entry || []) {
         for (const change of item.changes || []) {
-          if (change.field === "messages") {
-            const messages = change.value.messages || [];
-            
-            for (const message of messages) {
-              // Find WhatsApp account by phone number ID
-              const accounts = await storage.getWhatsappAccountsByUser("system"); // TODO: Implement proper account lookup
-              const account = accounts.find(acc => acc.phoneNumberId === change.value.metadata.phone_number_id);
-              
-              if (account) {
-                // Process incoming message
-                const result = await whatsappService.processIncomingMessage(account.id, message);
-                
-                // Broadcast to user's WebSocket connection
-                broadcastToUser(account.userId, {
-                  type: "new_message",
-                  message: result.message,
-                  contact: result.contact,
-                  conversation: result.conversation,
-                });
-
-                // Check for bot response
-                const userBots = await storage.getChatbotsByUser(account.userId);
-                const activeBot = userBots.find(bot => bot.isActive);
-                
-                if (activeBot) {
-                  await chatbotProcessor.processBotResponse(
-                    activeBot.id,
-                    result.contact,
-                    result.message,
-                    result.conversation
-                  );
-                }
-              }
-            }
+          const phoneNumberId = change.value?.metadata?.phone_number_id;
+          if (phoneNumberId) {
+            phoneNumberIds.add(phoneNumberId);
           }
         }
       }
 
+      let signatureError: string | null = phoneNumberIds.size === 0 ? "Payload references no phone number" : null;
+      let signingAccountId: string | undefined;
+
+      for (const phoneNumberId of Array.from(phoneNumberIds)) {
+        const account = await storage.getWhatsappAccountByPhoneNumberId(phoneNumberId);
+        if (!account) {
+          signatureError = `Unknown phone number ID ${phoneNumberId}`;
+        } else if (!account.appSecret) {
+          signatureError = `No app secret configured for phone number ID ${phoneNumberId}`;
+        } else if (!signature || !Buffer.isBuffer(rawBody)) {
+          signatureError = "Missing X-Hub-Signature-256 header";
+        } else if (!WhatsAppService.verifySignature(rawBody, signature, account.appSecret)) {
+          signatureError = "Signature mismatch";
+        }
+
+        signingAccountId = signingAccountId ?? account?.id;
+        if (signatureError) {
+          break;
+        }
+      }
+
+      if (signatureError) {
+        console.warn("Rejected webhook:", signatureError);
+        await storage.createWebhookEvent({
+          whatsappAccountId: signingAccountId,
+          eventType: "signature_rejected",
+          payload: req.body,
+          processed: true,
+          error: signatureError,
+        });
+        return res.status(401).json({ message: "Invalid webhook signature" });
+      }
+
+      // Persist first and acknowledge immediately; the webhook worker applies the payload with retries
+      await storage.createWebhookEvent({
+        whatsappAccountId: signingAccountId,
+        eventType: entry?.[0]?.changes?.[0]?.field || "unknown",
+        payload: req.body,
+        processed: false,
+      });
+      webhookWorker.wake();
+
       res.status(200).send("OK");
     } catch (error) {
       console.error("Webhook error:", error);
@@ -249,6 +322,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Webhook inbox inspection and replay
+  app.get("/api/admin/webhook-events", authenticateToken, requireRole(["ceo", "admin"]), async (req: AuthRequest, res) => {
+    try {
+      const state = req.query.state as WebhookEventState | undefined;
+      if (state && !["pending", "processed", "dead_letter"].includes(state)) {
+        return res.status(400).json({ message: "Invalid state filter" });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string, 10) || 100, 500);
+      const events = await storage.getWebhookEvents(state, limit);
+      res.json(events);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch webhook events" });
+    }
+  });
+
+  app.get("/api/admin/webhook-events/:id", authenticateToken, requireRole(["ceo", "admin"]), async (req: AuthRequest, res) => {
+    try {
+      const event = await storage.getWebhookEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "Webhook event not found" });
+      }
+      res.json(event);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch webhook event" });
+    }
+  });
+
+  app.post("/api/admin/webhook-events/:id/replay", authenticateToken, requireRole(["ceo", "admin"]), async (req: AuthRequest, res) => {
+    try {
+      const event = await storage.getWebhookEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "Webhook event not found" });
+      }
+
+      // Payloads that failed signature verification are untrusted and must never reach the processor
+      if (event.eventType === "signature_rejected") {
+        return res.status(409).json({ message: "Rejected webhooks cannot be replayed" });
+      }
+
+      res.json(await webhookWorker.replay(event.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to replay webhook event" });
+    }
+  });
+
   // WhatsApp account management
   app.get("/api/whatsapp/accounts", authenticateToken, async (req: AuthRequest, res) => {
     try {
@@ -273,6 +392,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Opening hours and whether the business is open right now
+  app.get("/api/whatsapp/accounts/:id/business-hours", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const account = await storage.getWhatsappAccount(req.params.id);
+      if (!account || account.userId !== req.user!.id) {
+        return res.status(404).json({ message: "WhatsApp account not found" });
+      }
+
+      res.json({ businessHours: account.businessHours, awayMessage: account.awayMessage, ...businessStatus(account) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch business hours" });
+    }
+  });
+
+  app.put("/api/whatsapp/accounts/:id/business-hours", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const account = await storage.getWhatsappAccount(req.params.id);
+      if (!account || account.userId !== req.user!.id) {
+        return res.status(404).json({ message: "WhatsApp account not found" });
+      }
+
+      const { businessHours, awayMessage } = z.object({
+        businessHours: businessHoursSchema.nullable(),
+        awayMessage: z.string().min(1).nullable().optional(),
+      }).parse(req.body);
+
+      const updated = await storage.updateWhatsappAccount(account.id, { businessHours, awayMessage: awayMessage ?? null });
+      res.json({ businessHours: updated.businessHours, awayMessage: updated.awayMessage, ...businessStatus(updated) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid business hours", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update business hours" });
+    }
+  });
+
+  app.get("/api/whatsapp/accounts/:id/csat-survey", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const account = await storage.getWhatsappAccount(req.params.id);
+      if (!account || account.userId !== req.user!.id) {
+        return res.status(404).json({ message: "WhatsApp account not found" });
+      }
+
+      res.json({ csatSurvey: account.csatSurvey });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch satisfaction survey" });
+    }
+  });
+
+  app.put("/api/whatsapp/accounts/:id/csat-survey", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const account = await storage.getWhatsappAccount(req.params.id);
+      if (!account || account.userId !== req.user!.id) {
+        return res.status(404).json({ message: "WhatsApp account not found" });
+      }
+
+      const { csatSurvey } = z.object({ csatSurvey: csatSurveyConfigSchema.nullable() }).parse(req.body);
+      const updated = await storage.updateWhatsappAccount(account.id, { csatSurvey });
+      res.json({ csatSurvey: updated.csatSurvey });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid satisfaction survey", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update satisfaction survey" });
+    }
+  });
+
   // Contact management
   app.get("/api/contacts", authenticateToken, async (req: AuthRequest, res) => {
     try {
@@ -297,11 +483,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch("/api/contacts/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const contact = await storage.getContact(req.params.id);
+      if (!contact || contact.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+
+      const updates = insertContactSchema.pick({
+        whatsappAccountId: true,
+        name: true,
+        phone: true,
+        email: true,
+        company: true,
+        avatar: true,
+        isArchived: true,
+        optedOut: true,
+        timezone: true,
+        language: true,
+        tags: true,
+        metadata: true,
+      }).partial().extend({
+        // Pins the language bots answer in, overriding detection; null goes back to detection
+        preferredLanguage: z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/).nullable().optional(),
+      }).parse(req.body);
+
+      const updated = await storage.updateContact(contact.id, updates);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid contact", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update contact" });
+    }
+  });
+
   // Conversation management
   app.get("/api/conversations", authenticateToken, async (req: AuthRequest, res) => {
     try {
       const conversations = await storage.getConversationsByUser(req.user!.id);
-      res.json(conversations);
+      res.json(conversations.map(withWindowInfo));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch conversations" });
     }
@@ -317,21 +538,164 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Human handoff queue
+  app.get("/api/handoff/queue", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const [workspace, assigned] = await Promise.all([
+        storage.getHandoffQueue(req.user!.id),
+        storage.getHandoffQueueForAgent(req.user!.id),
+      ]);
+      const queue = [...workspace, ...assigned.filter(conversation => !workspace.some(own => own.id === conversation.id))]
+        .sort((a, b) => (a.handoffAt?.getTime() || 0) - (b.handoffAt?.getTime() || 0));
+      res.json(queue.map(withWindowInfo));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch handoff queue" });
+    }
+  });
+
+  // Agent takes over a conversation the bot has not escalated
+  app.post("/api/conversations/:id/handoff", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || !(await handoffQueue.canHandle(conversation, req.user!.id))) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (conversation.status === "handoff") {
+        return res.status(409).json({ message: "Conversation is already handed off" });
+      }
+
+      const handedOff = await handoffQueue.enqueue(conversation, "manual", {}, { agentId: req.user!.id });
+      res.json(withWindowInfo(handedOff));
+    } catch (error) {
+      if (error instanceof HandoffError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to hand off conversation" });
+    }
+  });
+
+  app.post("/api/conversations/:id/claim", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || !(await handoffQueue.canHandle(conversation, req.user!.id))) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      res.json(withWindowInfo(await handoffQueue.claim(conversation, req.user!.id)));
+    } catch (error) {
+      if (error instanceof HandoffError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to claim conversation" });
+    }
+  });
+
+  app.post("/api/conversations/:id/release", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || !(await handoffQueue.canHandle(conversation, req.user!.id))) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      res.json(withWindowInfo(await handoffQueue.release(conversation, req.user!.id)));
+    } catch (error) {
+      if (error instanceof HandoffError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to release conversation" });
+    }
+  });
+
+  // Hand a conversation to another team or agent; leaving agentId out lets the team's strategy pick
+  app.post("/api/conversations/:id/assign", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || !(await handoffQueue.canHandle(conversation, req.user!.id))) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const { teamId, agentId } = z.object({
+        teamId: z.string().uuid().nullable().default(null),
+        agentId: z.string().uuid().nullable().default(null),
+      }).parse(req.body);
+
+      const team = teamId ? await storage.getTeam(teamId) : undefined;
+      if (teamId && (!team || team.userId !== conversation.userId)) {
+        return res.status(400).json({ message: "Team not found" });
+      }
+      if (agentId && agentId !== conversation.userId) {
+        const agentTeams = await storage.getTeamsByAgent(agentId);
+        const eligible = team
+          ? agentTeams.some(candidate => candidate.id === team.id)
+          : agentTeams.some(candidate => candidate.userId === conversation.userId);
+        if (!eligible) {
+          return res.status(400).json({ message: "Agent is not a member of the team" });
+        }
+      }
+
+      res.json(withWindowInfo(await handoffQueue.transfer(conversation, { teamId, agentId })));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid assignment", errors: error.errors });
+      }
+      if (error instanceof HandoffError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to assign conversation" });
+    }
+  });
+
+  app.post("/api/conversations/:id/resolve", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || !(await handoffQueue.canHandle(conversation, req.user!.id))) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const returnToBot = req.body?.returnToBot === true;
+      const resolved = await handoffQueue.resolve(conversation, req.user!.id, returnToBot);
+      await csatSurveys.afterResolve(resolved, conversation.assignedAgentId ?? req.user!.id);
+      res.json(withWindowInfo(resolved));
+    } catch (error) {
+      if (error instanceof HandoffError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to resolve conversation" });
+    }
+  });
+
   // Message sending
   app.post("/api/messages", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const { conversationId, contactId, content, type = "text" } = req.body;
+      const { conversationId, contactId, content, type = "text", mediaUrl, fileName, sendAt } = req.body;
       
-      if (!conversationId || !contactId || !content) {
+      if (!conversationId || !contactId || (type === "text" && !content)) {
         return res.status(400).json({ message: "Missing required fields" });
       }
 
-      const message = await whatsappService.processOutgoingMessage(
+      if (type !== "text" && (!isMediaType(type) || !mediaUrl)) {
+        return res.status(400).json({ message: "Media messages need a mediaUrl link, or upload the file to /api/messages/media" });
+      }
+
+      let scheduledFor: Date | undefined;
+      if (sendAt) {
+        const contact = await storage.getContact(contactId);
+        const resolved = resolveSendAt(String(sendAt), contact?.timezone);
+        if (!resolved || resolved.getTime() <= Date.now()) {
+          return res.status(400).json({ message: "sendAt must be a valid time in the future" });
+        }
+        scheduledFor = resolved;
+      }
+
+      const service = await whatsappServices.forConversation(conversationId);
+      const message = await service.processOutgoingMessage(
         conversationId,
         contactId,
-        content,
-        type
+        content || "",
+        type,
+        { media: type === "text" ? undefined : { mediaUrl, fileName }, sendAt: scheduledFor }
       );
+      outboundQueue.wake();
 
       // Broadcast to WebSocket connections
       broadcastToUser(req.user!.id, {
@@ -341,52 +705,1015 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(message);
     } catch (error) {
+      if (error instanceof CustomerServiceWindowError) {
+        return res.status(422).json({ message: error.message, code: error.code });
+      }
       console.error("Send message error:", error);
       res.status(500).json({ message: "Failed to send message" });
     }
   });
 
-  // Chatbot management
-  app.get("/api/chatbots", authenticateToken, async (req: AuthRequest, res) => {
+  app.get("/api/messages/scheduled", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const chatbots = await storage.getChatbotsByUser(req.user!.id);
-      res.json(chatbots);
+      const scheduled = await storage.getScheduledMessagesByUser(req.user!.id);
+      res.json(scheduled);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch chatbots" });
+      res.status(500).json({ message: "Failed to fetch scheduled messages" });
     }
   });
 
-  app.post("/api/chatbots", authenticateToken, async (req: AuthRequest, res) => {
+  app.patch("/api/messages/:id", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const chatbotData = insertChatbotSchema.parse({
-        ...req.body,
-        userId: req.user!.id,
+      const { content, sendAt } = req.body;
+
+      const message = await storage.getMessage(req.params.id);
+      const conversation = message?.conversationId ? await storage.getConversation(message.conversationId) : undefined;
+      if (!message || !conversation || conversation.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      const updates: { content?: string; sendAt?: Date } = {};
+      if (content !== undefined) {
+        if (message.type !== "text" && message.type !== "image" && message.type !== "video" && message.type !== "document") {
+          return res.status(400).json({ message: `The content of a ${message.type} message can't be edited` });
+        }
+        if (message.type === "text" && !content) {
+          return res.status(400).json({ message: "Text messages need content" });
+        }
+        updates.content = content;
+      }
+      if (sendAt !== undefined) {
+        const contact = message.contactId ? await storage.getContact(message.contactId) : undefined;
+        const resolved = resolveSendAt(String(sendAt), contact?.timezone);
+        if (!resolved || resolved.getTime() <= Date.now()) {
+          return res.status(400).json({ message: "sendAt must be a valid time in the future" });
+        }
+        updates.sendAt = resolved;
+      }
+
+      const updated = await storage.updateScheduledMessage(message.id, updates);
+      if (!updated) {
+        return res.status(409).json({ message: "Only scheduled messages that haven't been sent yet can be edited" });
+      }
+
+      broadcastToUser(req.user!.id, {
+        type: "message_updated",
+        message: updated,
       });
-      
-      const chatbot = await storage.createChatbot(chatbotData);
-      res.json(chatbot);
+
+      res.json(updated);
     } catch (error) {
-      res.status(500).json({ message: "Failed to create chatbot" });
+      console.error("Edit scheduled message error:", error);
+      res.status(500).json({ message: "Failed to edit message" });
     }
   });
 
-  app.get("/api/chatbots/:id/analytics", authenticateToken, async (req: AuthRequest, res) => {
+  app.delete("/api/messages/:id", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const { id } = req.params;
-      const analytics = await storage.getBotAnalytics(id);
-      res.json(analytics);
+      const message = await storage.getMessage(req.params.id);
+      const conversation = message?.conversationId ? await storage.getConversation(message.conversationId) : undefined;
+      if (!message || !conversation || conversation.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      // Cancelling removes the message; it was never visible to the contact
+      const cancelled = await storage.deleteScheduledMessage(message.id);
+      if (!cancelled) {
+        return res.status(409).json({ message: "Only scheduled messages that haven't been sent yet can be cancelled" });
+      }
+
+      broadcastToUser(req.user!.id, {
+        type: "message_cancelled",
+        messageId: message.id,
+        conversationId: conversation.id,
+      });
+
+      res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch bot analytics" });
+      console.error("Cancel scheduled message error:", error);
+      res.status(500).json({ message: "Failed to cancel message" });
     }
   });
 
-  // User statistics
-  app.get("/api/stats", authenticateToken, async (req: AuthRequest, res) => {
+  // Media message sending, either as a multipart file upload or by link
+  app.post("/api/messages/media", authenticateToken, handleFileUpload, async (req: AuthRequest, res) => {
     try {
-      const stats = await storage.getUserStats(req.user!.id);
-      res.json(stats);
+      const { conversationId, type, caption, filename, link } = req.body;
+
+      if (!conversationId || !isMediaType(type)) {
+        return res.status(400).json({ message: "conversationId and a media type (image, audio, video, document) are required" });
+      }
+
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation || conversation.userId !== req.user!.id || !conversation.contactId) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const service = await whatsappServices.forAccountId(conversation.whatsappAccountId);
+      let media: OutgoingMedia;
+
+      if (req.file) {
+        const invalid = validateMedia(type, req.file.mimetype, req.file.size);
+        if (invalid) {
+          return res.status(400).json({ message: invalid });
+        }
+
+        const fileName = filename || req.file.originalname;
+        const uploaded = await service.uploadMedia(req.file.buffer, req.file.mimetype, fileName);
+        if (!uploaded.success || !uploaded.mediaId) {
+          return res.status(502).json({ message: `Media upload failed: ${uploaded.error}` });
+        }
+
+        // Keep our own copy so the CRM can show the attachment after Graph URLs expire
+        const storageKey = `${conversation.whatsappAccountId || "default"}/${uploaded.mediaId}`;
+        await blobStore.put(storageKey, req.file.buffer);
+
+        media = {
+          mediaId: uploaded.mediaId,
+          mimeType: req.file.mimetype,
+          fileName,
+          storageKey,
+        };
+      } else if (link) {
+        media = { mediaUrl: link, fileName: filename };
+      } else {
+        return res.status(400).json({ message: "Provide a file or a link" });
+      }
+
+      const message = await service.processOutgoingMessage(
+        conversation.id,
+        conversation.contactId,
+        caption || "",
+        type,
+        { media }
+      );
+      outboundQueue.wake();
+
+      broadcastToUser(req.user!.id, {
+        type: "new_message",
+        message,
+      });
+
+      res.json(message);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch user stats" });
+      if (error instanceof CustomerServiceWindowError) {
+        return res.status(422).json({ message: error.message, code: error.code });
+      }
+      console.error("Send media error:", error);
+      res.status(500).json({ message: "Failed to send media message" });
+    }
+  });
+
+  // Reply-button and list messages
+  app.post("/api/messages/interactive", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { conversationId } = req.body;
+      const parsed = interactiveContentSchema.safeParse(req.body.interactive);
+
+      if (!conversationId || !parsed.success) {
+        return res.status(400).json({
+          message: "conversationId and a valid interactive payload are required",
+          errors: parsed.success ? undefined : parsed.error.errors,
+        });
+      }
+
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation || conversation.userId !== req.user!.id || !conversation.contactId) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const service = await whatsappServices.forAccountId(conversation.whatsappAccountId);
+      const message = await service.processOutgoingMessage(
+        conversation.id,
+        conversation.contactId,
+        parsed.data.body.text,
+        "interactive",
+        { interactive: parsed.data }
+      );
+      outboundQueue.wake();
+
+      broadcastToUser(req.user!.id, {
+        type: "new_message",
+        message,
+      });
+
+      res.json(message);
+    } catch (error) {
+      if (error instanceof CustomerServiceWindowError) {
+        return res.status(422).json({ message: error.message, code: error.code });
+      }
+      console.error("Send interactive message error:", error);
+      res.status(500).json({ message: "Failed to send interactive message" });
+    }
+  });
+
+  // Stored media, with byte-range support so audio and video can be streamed and seeked
+  app.get("/api/media/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const message = await storage.getMessage(req.params.id);
+      const conversation = message?.conversationId ? await storage.getConversation(message.conversationId) : undefined;
+      if (!message?.mediaStorageKey || !conversation || conversation.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Media not found" });
+      }
+
+      const size = await blobStore.size(message.mediaStorageKey);
+      if (size === null) {
+        return res.status(404).json({ message: "Media not found" });
+      }
+
+      res.setHeader("Content-Type", message.mediaMimeType || "application/octet-stream");
+      res.setHeader("Accept-Ranges", "bytes");
+      if (message.fileName) {
+        res.setHeader("Content-Disposition", `inline; filename="${encodeURIComponent(message.fileName)}"`);
+      }
+
+      const stream = (bounds?: { start: number; end: number }) => {
+        blobStore.createReadStream(message.mediaStorageKey!, bounds)
+          .on("error", (error) => {
+            console.error("Media stream error:", error);
+            res.destroy(error);
+          })
+          .pipe(res);
+      };
+
+      const range = /^bytes=(\d*)-(\d*)$/.exec(req.headers.range || "");
+      if (req.headers.range && range) {
+        // "bytes=-500" asks for the last 500 bytes
+        const start = range[1] ? parseInt(range[1], 10) : Math.max(size - parseInt(range[2] || "0", 10), 0);
+        const end = range[1] && range[2] ? Math.min(parseInt(range[2], 10), size - 1) : size - 1;
+
+        if (start > end || start >= size) {
+          res.setHeader("Content-Range", `bytes */${size}`);
+          return res.status(416).end();
+        }
+
+        res.status(206);
+        res.setHeader("Content-Range", `bytes ${start}-${end}/${size}`);
+        res.setHeader("Content-Length", end - start + 1);
+        return stream({ start, end });
+      }
+
+      res.setHeader("Content-Length", size);
+      stream();
+    } catch (error) {
+      console.error("Media download error:", error);
+      res.status(500).json({ message: "Failed to fetch media" });
+    }
+  });
+
+  // Message templates
+  app.get("/api/templates", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const templates = await storage.getMessageTemplatesByUser(req.user!.id);
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch templates" });
+    }
+  });
+
+  app.post("/api/templates", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const templateData = insertMessageTemplateSchema.parse({
+        ...req.body,
+        userId: req.user!.id,
+        status: "pending",
+      });
+      const { components } = templateData;
+
+      const invalid = validateTemplateComponents(components);
+      if (invalid) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      const account = templateData.whatsappAccountId ? await storage.getWhatsappAccount(templateData.whatsappAccountId) : undefined;
+      if (!account || account.userId !== req.user!.id) {
+        return res.status(404).json({ message: "WhatsApp account not found" });
+      }
+
+      // Submit for review; the sync job picks up the approval decision later
+      const submitted = await whatsappServices.forAccount(account).createTemplate(account.accountId, {
+        name: templateData.name,
+        language: templateData.language,
+        category: templateData.category,
+        components,
+      });
+      if (!submitted.success) {
+        return res.status(502).json({ message: `Template submission failed: ${submitted.error}` });
+      }
+
+      const template = await storage.createMessageTemplate({
+        ...templateData,
+        externalId: submitted.id,
+        status: submitted.status?.toLowerCase() === "approved" ? "approved" : "pending",
+      });
+      res.json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid template", errors: error.errors });
+      }
+      console.error("Create template error:", error);
+      res.status(500).json({ message: "Failed to create template" });
+    }
+  });
+
+  app.post("/api/templates/sync", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const accounts = await storage.getWhatsappAccountsByUser(req.user!.id);
+      const synced = [];
+      for (const account of accounts) {
+        synced.push(...await templateSync.syncAccount(account));
+      }
+      res.json(synced);
+    } catch (error) {
+      console.error("Template sync error:", error);
+      res.status(502).json({ message: "Failed to sync templates" });
+    }
+  });
+
+  app.post("/api/templates/:id/send", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { conversationId, parameters } = req.body;
+
+      const template = await storage.getMessageTemplate(req.params.id);
+      if (!template || template.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      if (template.status !== "approved") {
+        return res.status(409).json({ message: `Template is ${template.status}, only approved templates can be sent` });
+      }
+
+      const conversation = conversationId ? await storage.getConversation(conversationId) : undefined;
+      if (!conversation || conversation.userId !== req.user!.id || !conversation.contactId) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (conversation.whatsappAccountId !== template.whatsappAccountId) {
+        return res.status(400).json({ message: "Template belongs to a different WhatsApp account" });
+      }
+
+      const contact = await storage.getContact(conversation.contactId);
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+
+      const { payload, renderedText } = buildTemplateMessage(template, contact, parameters);
+      const service = await whatsappServices.forAccountId(conversation.whatsappAccountId);
+      const message = await service.processOutgoingMessage(
+        conversation.id,
+        contact.id,
+        renderedText,
+        "template",
+        { template: { templateId: template.id, payload } }
+      );
+      outboundQueue.wake();
+
+      broadcastToUser(req.user!.id, {
+        type: "new_message",
+        message,
+      });
+
+      res.json(message);
+    } catch (error) {
+      if (error instanceof TemplateParameterError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Send template error:", error);
+      res.status(500).json({ message: "Failed to send template message" });
+    }
+  });
+
+  // Campaigns
+  app.get("/api/campaigns", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const campaigns = await storage.getCampaignsByUser(req.user!.id);
+      res.json(campaigns);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch campaigns" });
+    }
+  });
+
+  app.post("/api/campaigns", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const startAt = req.body.startAt ? new Date(req.body.startAt) : undefined;
+      const campaignData = insertCampaignSchema.parse({
+        ...req.body,
+        userId: req.user!.id,
+        segment: campaignSegmentSchema.parse(req.body.segment || {}),
+        startAt,
+        // A start time schedules the campaign right away; otherwise it waits as a draft
+        status: startAt ? "scheduled" : "draft",
+      });
+
+      const account = await storage.getWhatsappAccount(campaignData.whatsappAccountId);
+      if (!account || account.userId !== req.user!.id) {
+        return res.status(404).json({ message: "WhatsApp account not found" });
+      }
+
+      const invalid = await validateCampaignContent(campaignData);
+      if (invalid) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      const campaign = await storage.createCampaign(campaignData);
+      campaignRunner.wake();
+      res.json(campaign);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid campaign", errors: error.errors });
+      }
+      console.error("Create campaign error:", error);
+      res.status(500).json({ message: "Failed to create campaign" });
+    }
+  });
+
+  app.post("/api/campaigns/:id/start", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign || campaign.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      if (campaign.status !== "draft" && campaign.status !== "scheduled") {
+        return res.status(409).json({ message: `Campaign is already ${campaign.status}` });
+      }
+
+      // Template approval may have been revoked since the campaign was drafted
+      const invalid = await validateCampaignContent(campaign);
+      if (invalid) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      const started = await storage.updateCampaign(campaign.id, { status: "scheduled", startAt: new Date() });
+      campaignRunner.wake();
+      res.json(started);
+    } catch (error) {
+      console.error("Start campaign error:", error);
+      res.status(500).json({ message: "Failed to start campaign" });
+    }
+  });
+
+  app.post("/api/campaigns/:id/cancel", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign || campaign.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+      if (campaign.status === "completed" || campaign.status === "cancelled") {
+        return res.status(409).json({ message: `Campaign is already ${campaign.status}` });
+      }
+
+      const cancelled = await storage.updateCampaign(campaign.id, { status: "cancelled", completedAt: new Date() });
+      res.json(cancelled);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel campaign" });
+    }
+  });
+
+  app.get("/api/campaigns/:id/recipients", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign || campaign.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const recipients = await storage.getCampaignRecipients(campaign.id);
+      res.json(recipients);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch campaign recipients" });
+    }
+  });
+
+  app.get("/api/campaigns/:id/stats", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const campaign = await storage.getCampaign(req.params.id);
+      if (!campaign || campaign.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Campaign not found" });
+      }
+
+      const stats = await storage.getCampaignStats(campaign.id);
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch campaign stats" });
+    }
+  });
+
+  // Chatbot management
+  app.get("/api/chatbots", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const chatbots = await storage.getChatbotsByUser(req.user!.id);
+      res.json(chatbots);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch chatbots" });
+    }
+  });
+
+  // Fields of a bot its owner may change; the schedule and tags come from chatbotTargetingSchema
+  const chatbotUpdateSchema = insertChatbotSchema.pick({
+    whatsappAccountId: true,
+    name: true,
+    description: true,
+    template: true,
+    isActive: true,
+    priority: true,
+    config: true,
+    triggers: true,
+    responses: true,
+    analytics: true,
+  }).partial();
+
+  const chatbotTargetingSchema = z.object({
+    schedule: weeklyScheduleSchema.nullable().optional(),
+    contactTags: z.array(z.string().min(1)).nullable().optional(),
+  });
+
+  async function ownsWhatsappAccount(userId: string, whatsappAccountId: string | null | undefined): Promise<boolean> {
+    if (!whatsappAccountId) {
+      return true;
+    }
+    const account = await storage.getWhatsappAccount(whatsappAccountId);
+    return Boolean(account && account.userId === userId);
+  }
+
+  app.post("/api/chatbots", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const chatbotData = insertChatbotSchema.parse({
+        ...req.body,
+        userId: req.user!.id,
+      });
+      const targeting = chatbotTargetingSchema.parse(req.body);
+
+      if (!(await ownsWhatsappAccount(req.user!.id, chatbotData.whatsappAccountId))) {
+        return res.status(404).json({ message: "WhatsApp account not found" });
+      }
+
+      // New bots start from their template's seed flow unless they bring their own
+      const config = chatbotData.config
+        ? flowDefinitionSchema.parse(chatbotData.config)
+        : seedFlowFor(chatbotData.template);
+      
+      const chatbot = await storage.createChatbot({ ...chatbotData, ...targeting, config });
+      res.json(chatbot);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid chatbot", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create chatbot" });
+    }
+  });
+
+  // Explains which bot would answer a message from the contact to the account right now (or at "at"), and why
+  app.post("/api/chatbots/resolve", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { whatsappAccountId, contactId, phone, at } = z.object({
+        whatsappAccountId: z.string().uuid(),
+        contactId: z.string().uuid().optional(),
+        phone: z.string().min(1).optional(),
+        at: z.string().datetime({ offset: true }).optional(),
+      }).parse(req.body);
+
+      const account = await storage.getWhatsappAccount(whatsappAccountId);
+      if (!account || account.userId !== req.user!.id) {
+        return res.status(404).json({ message: "WhatsApp account not found" });
+      }
+
+      const contact = contactId
+        ? await storage.getContact(contactId)
+        : phone ? await storage.getContactByPhone(phone, req.user!.id) : undefined;
+      if (contactId && (!contact || contact.userId !== req.user!.id)) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+
+      const conversation = contact ? await storage.getConversationByContactAndAccount(contact.id, account.id) : undefined;
+      const selection = selectChatbot(await storage.getChatbotsByUser(req.user!.id), account.id, contact || null, at ? new Date(at) : new Date());
+      const withAgents = conversation?.status === "handoff" || conversation?.status === "resolved";
+
+      res.json({
+        chatbot: withAgents ? null : selection.chatbot,
+        reason: withAgents
+          ? "The conversation is with human agents, so no bot answers"
+          : selection.chatbot ? `${selection.chatbot.name} is the first eligible bot` : "No bot is eligible to answer",
+        contactId: contact?.id ?? null,
+        conversationStatus: conversation?.status ?? null,
+        candidates: selection.candidates,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to resolve chatbot" });
+    }
+  });
+
+  app.patch("/api/chatbots/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const chatbot = await storage.getChatbot(req.params.id);
+      if (!chatbot || chatbot.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+
+      const updates = {
+        ...chatbotUpdateSchema.parse(req.body),
+        ...chatbotTargetingSchema.parse(req.body),
+      };
+      if (updates.config !== undefined) {
+        updates.config = flowDefinitionSchema.parse(updates.config);
+      }
+      if (!(await ownsWhatsappAccount(req.user!.id, updates.whatsappAccountId))) {
+        return res.status(404).json({ message: "WhatsApp account not found" });
+      }
+
+      const updated = await storage.updateChatbot(chatbot.id, updates);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid chatbot", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update chatbot" });
+    }
+  });
+
+  // Knowledge base
+  app.get("/api/chatbots/:id/knowledge", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const chatbot = await storage.getChatbot(req.params.id);
+      if (!chatbot || chatbot.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+
+      const articles = await storage.getKnowledgeArticlesByChatbot(chatbot.id);
+      res.json(articles);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch knowledge base" });
+    }
+  });
+
+  // Shows what the bot would answer, to tune articles and the relevance cutoff
+  app.get("/api/chatbots/:id/knowledge/search", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const chatbot = await storage.getChatbot(req.params.id);
+      if (!chatbot || chatbot.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+
+      const articles = await storage.getKnowledgeArticlesByChatbot(chatbot.id);
+      const matches = rankArticles(articles.filter(article => article.isActive), String(req.query.q || ""));
+      res.json(matches.slice(0, 10).map(match => ({ score: match.score, article: match.article })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search knowledge base" });
+    }
+  });
+
+  app.post("/api/chatbots/:id/knowledge", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const chatbot = await storage.getChatbot(req.params.id);
+      if (!chatbot || chatbot.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+
+      const articleData = insertKnowledgeArticleSchema.parse({
+        ...req.body,
+        chatbotId: chatbot.id,
+      });
+      const [article] = await storage.createKnowledgeArticles([articleData]);
+      res.json(article);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid article", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create article" });
+    }
+  });
+
+  // Bulk import from an uploaded .md/.csv file or from { format, content } in the body
+  app.post("/api/chatbots/:id/knowledge/import", authenticateToken, handleFileUpload, async (req: AuthRequest, res) => {
+    try {
+      const chatbot = await storage.getChatbot(req.params.id);
+      if (!chatbot || chatbot.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+
+      const uploaded = req.file;
+      const content = uploaded ? uploaded.buffer.toString("utf8") : req.body.content;
+      const format = req.body.format || (uploaded?.originalname.toLowerCase().endsWith(".csv") ? "csv" : "markdown");
+      if (typeof content !== "string" || !content.trim()) {
+        return res.status(400).json({ message: "Upload a Markdown or CSV file, or send its text as content" });
+      }
+      if (format !== "markdown" && format !== "csv") {
+        return res.status(400).json({ message: "format must be markdown or csv" });
+      }
+
+      let parsed;
+      try {
+        parsed = format === "csv"
+          ? parseCsvArticles(content)
+          : parseMarkdownArticles(content, uploaded?.originalname.replace(/\.\w+$/, "") || "Documento importado");
+      } catch (parseError) {
+        return res.status(400).json({ message: parseError instanceof Error ? parseError.message : "Could not parse import" });
+      }
+
+      const articles = await storage.createKnowledgeArticles(parsed.map(article => ({
+        ...article,
+        chatbotId: chatbot.id,
+        language: req.body.language || null,
+      })));
+      res.json({ imported: articles.length, articles });
+    } catch (error) {
+      console.error("Knowledge import error:", error);
+      res.status(500).json({ message: "Failed to import knowledge base" });
+    }
+  });
+
+  app.patch("/api/chatbots/:id/knowledge/:articleId", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const chatbot = await storage.getChatbot(req.params.id);
+      const article = await storage.getKnowledgeArticle(req.params.articleId);
+      if (!chatbot || chatbot.userId !== req.user!.id || !article || article.chatbotId !== chatbot.id) {
+        return res.status(404).json({ message: "Article not found" });
+      }
+
+      const updates = insertKnowledgeArticleSchema.partial().omit({ chatbotId: true }).parse(req.body);
+      const updated = await storage.updateKnowledgeArticle(article.id, updates);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid article", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update article" });
+    }
+  });
+
+  app.delete("/api/chatbots/:id/knowledge/:articleId", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const chatbot = await storage.getChatbot(req.params.id);
+      const article = await storage.getKnowledgeArticle(req.params.articleId);
+      if (!chatbot || chatbot.userId !== req.user!.id || !article || article.chatbotId !== chatbot.id) {
+        return res.status(404).json({ message: "Article not found" });
+      }
+
+      await storage.deleteKnowledgeArticle(article.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete article" });
+    }
+  });
+
+  app.get("/api/chatbots/:id/analytics", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { id } = req.params;
+      const analytics = await storage.getBotAnalytics(id);
+      res.json(analytics);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch bot analytics" });
+    }
+  });
+
+  // Satisfaction survey results for the bot's own replies
+  app.get("/api/chatbots/:id/csat", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const chatbot = await storage.getChatbot(req.params.id);
+      if (!chatbot || chatbot.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Chatbot not found" });
+      }
+
+      res.json(await storage.getCsatSummaryByChatbot(chatbot.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch satisfaction results" });
+    }
+  });
+
+  // Satisfaction survey results per agent across the workspace
+  app.get("/api/csat/agents", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const summaries = await storage.getCsatSummaryByAgent(req.user!.id);
+      res.json(await Promise.all(summaries.map(async summary => {
+        const agent = await storage.getUser(summary.agentId);
+        return { ...summary, agentName: agent?.username || agent?.email || null };
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch satisfaction results" });
+    }
+  });
+
+  // Teams and routing
+  app.get("/api/teams", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const teams = await storage.getTeamsByUser(req.user!.id);
+      res.json(await Promise.all(teams.map(async team => ({ ...team, members: await storage.getTeamMembers(team.id) }))));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch teams" });
+    }
+  });
+
+  app.post("/api/teams", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const teamData = insertTeamSchema.parse({ ...req.body, userId: req.user!.id });
+      const team = await storage.createTeam(teamData);
+      res.json(team);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid team", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create team" });
+    }
+  });
+
+  app.patch("/api/teams/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const team = await storage.getTeam(req.params.id);
+      if (!team || team.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+
+      const updates = insertTeamSchema.partial().omit({ userId: true }).parse(req.body);
+      const updated = await storage.updateTeam(team.id, updates);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid team", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update team" });
+    }
+  });
+
+  app.delete("/api/teams/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const team = await storage.getTeam(req.params.id);
+      if (!team || team.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+
+      await storage.deleteTeam(team.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete team" });
+    }
+  });
+
+  // Agents are existing users, added by the email they log in with
+  app.post("/api/teams/:id/members", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const team = await storage.getTeam(req.params.id);
+      if (!team || team.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+
+      const { email } = z.object({ email: z.string().email() }).parse(req.body);
+      const agent = await storage.getUserByEmail(email);
+      if (!agent || !agent.isActive) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const member = await storage.addTeamMember({ teamId: team.id, agentId: agent.id });
+      res.json(member);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid member", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to add team member" });
+    }
+  });
+
+  app.delete("/api/teams/:id/members/:agentId", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const team = await storage.getTeam(req.params.id);
+      if (!team || team.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+
+      const removed = await storage.removeTeamMember(team.id, req.params.agentId);
+      if (!removed) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove team member" });
+    }
+  });
+
+  const routingRuleKeywordsSchema = z.array(z.string().min(1)).optional();
+
+  // Rules may only point at the user's own teams and WhatsApp accounts
+  async function validateRoutingRuleTargets(userId: string, rule: { teamId?: string; whatsappAccountId?: string | null }): Promise<string | null> {
+    if (rule.teamId) {
+      const team = await storage.getTeam(rule.teamId);
+      if (!team || team.userId !== userId) {
+        return "Team not found";
+      }
+    }
+    if (rule.whatsappAccountId) {
+      const account = await storage.getWhatsappAccount(rule.whatsappAccountId);
+      if (!account || account.userId !== userId) {
+        return "WhatsApp account not found";
+      }
+    }
+    return null;
+  }
+
+  app.get("/api/routing-rules", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const rules = await storage.getRoutingRulesByUser(req.user!.id);
+      res.json(rules);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch routing rules" });
+    }
+  });
+
+  app.post("/api/routing-rules", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const ruleData = insertRoutingRuleSchema.parse({
+        ...req.body,
+        userId: req.user!.id,
+        keywords: routingRuleKeywordsSchema.parse(req.body.keywords),
+      });
+
+      const invalid = await validateRoutingRuleTargets(req.user!.id, ruleData);
+      if (invalid) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      const rule = await storage.createRoutingRule(ruleData);
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid routing rule", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create routing rule" });
+    }
+  });
+
+  app.patch("/api/routing-rules/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const rule = await storage.getRoutingRule(req.params.id);
+      if (!rule || rule.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Routing rule not found" });
+      }
+
+      const updates = insertRoutingRuleSchema.partial().omit({ userId: true }).parse({
+        ...req.body,
+        keywords: routingRuleKeywordsSchema.parse(req.body.keywords),
+      });
+
+      const invalid = await validateRoutingRuleTargets(req.user!.id, updates);
+      if (invalid) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      const updated = await storage.updateRoutingRule(rule.id, updates);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid routing rule", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update routing rule" });
+    }
+  });
+
+  app.delete("/api/routing-rules/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const rule = await storage.getRoutingRule(req.params.id);
+      if (!rule || rule.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Routing rule not found" });
+      }
+
+      await storage.deleteRoutingRule(rule.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete routing rule" });
+    }
+  });
+
+  // User statistics
+  app.get("/api/stats", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const stats = await storage.getUserStats(req.user!.id);
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch user stats" });
+    }
+  });
+
+  // Chart-ready hourly, daily or weekly metrics over a date range, optionally split by account or bot
+  app.get("/api/analytics/timeseries", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const query = analyticsQuerySchema.parse(req.query);
+
+      if (query.whatsappAccountId) {
+        const account = await storage.getWhatsappAccount(query.whatsappAccountId);
+        if (!account || account.userId !== req.user!.id) {
+          return res.status(404).json({ message: "WhatsApp account not found" });
+        }
+      }
+      if (query.chatbotId) {
+        const chatbot = await storage.getChatbot(query.chatbotId);
+        if (!chatbot || chatbot.userId !== req.user!.id) {
+          return res.status(404).json({ message: "Chatbot not found" });
+        }
+      }
+
+      res.json(await getAnalyticsTimeseries(req.user!.id, query));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid analytics query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch analytics" });
     }
   });
 
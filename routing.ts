@@ -0,0 +1,99 @@
+import { storage } from "./storage";
+import { bestIntent, DEFAULT_INTENT_THRESHOLD } from "./intents";
+import type { Contact, Conversation, RoutingRule, Team } from "@shared/schema";
+
+// What routing rules can look at when a conversation is handed off
+export interface RoutingContext {
+  contact?: Contact;
+  intent?: string | null;
+  text?: string | null;
+}
+
+export function ruleMatches(rule: RoutingRule, conversation: Conversation, context: RoutingContext): boolean {
+  if (!rule.isActive) {
+    return false;
+  }
+  if (rule.whatsappAccountId && rule.whatsappAccountId !== conversation.whatsappAccountId) {
+    return false;
+  }
+  if (rule.tag) {
+    const tags = ((context.contact?.tags || []) as string[]).map(tag => tag.toLowerCase());
+    if (!tags.includes(rule.tag.toLowerCase())) {
+      return false;
+    }
+  }
+  if (rule.intent && rule.intent !== context.intent) {
+    return false;
+  }
+
+  const keywords = (rule.keywords || []) as string[];
+  if (keywords.length > 0) {
+    const match = bestIntent(context.text || "", [{ name: rule.id, keywords }]);
+    if (!match || match.confidence < DEFAULT_INTENT_THRESHOLD) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Chooses the team and agent for handed-off conversations, among agents connected over /ws
+export class ConversationRouter {
+  private online = new Set<string>();
+
+  setOnline(agentId: string, online: boolean): void {
+    if (online) {
+      this.online.add(agentId);
+    } else {
+      this.online.delete(agentId);
+    }
+  }
+
+  isOnline(agentId: string): boolean {
+    return this.online.has(agentId);
+  }
+
+  onlineAgents(): string[] {
+    return Array.from(this.online);
+  }
+
+  // First matching rule in priority order; null leaves the conversation in the workspace-wide queue
+  async chooseTeam(conversation: Conversation, context: RoutingContext): Promise<Team | null> {
+    if (!conversation.userId) {
+      return null;
+    }
+
+    const rules = await storage.getRoutingRulesByUser(conversation.userId);
+    const rule = rules.find(candidate => ruleMatches(candidate, conversation, context));
+    return rule ? (await storage.getTeam(rule.teamId)) || null : null;
+  }
+
+  // Next online member by the team's strategy; null when nobody is available to take it
+  async chooseAgent(teamId: string, excludeAgentId?: string): Promise<string | null> {
+    const team = await storage.getTeam(teamId);
+    if (!team) {
+      return null;
+    }
+
+    const members = (await storage.getTeamMembers(team.id)).map(member => member.agentId);
+    const available = members.filter(agentId => agentId !== excludeAgentId && this.online.has(agentId));
+    if (available.length === 0) {
+      return null;
+    }
+
+    let agentId: string;
+    if (team.assignmentStrategy === "least_open") {
+      const open = await storage.countOpenConversationsByAgent(available);
+      agentId = available.reduce((best, candidate) => (open[candidate] < open[best] ? candidate : best));
+    } else {
+      // Walk the full member list from the last pick so offline agents keep their place in the rotation
+      const last = team.lastAssignedAgentId ? members.indexOf(team.lastAssignedAgentId) : -1;
+      const rotation = members.map((_, offset) => members[(last + 1 + offset) % members.length]);
+      agentId = rotation.find(candidate => available.includes(candidate))!;
+    }
+
+    await storage.updateTeam(team.id, { lastAssignedAgentId: agentId });
+    return agentId;
+  }
+}
+
+export const conversationRouter = new ConversationRouter();
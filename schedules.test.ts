@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { isWithinSchedule, localTime, wallClockToDate, windowContains } from "./schedules";
+
+const FRIDAY = 5;
+const SATURDAY = 6;
+
+describe("windowContains", () => {
+  const daytime = { days: [1, 2, 3, 4, 5], start: "09:00", end: "17:00" };
+  const overnight = { days: [FRIDAY], start: "22:00", end: "02:00" };
+
+  it("includes the start and excludes the end of a daytime window", () => {
+    expect(windowContains(daytime, 1, 9 * 60)).toBe(true);
+    expect(windowContains(daytime, 1, 17 * 60 - 1)).toBe(true);
+    expect(windowContains(daytime, 1, 17 * 60)).toBe(false);
+    expect(windowContains(daytime, 0, 12 * 60)).toBe(false);
+  });
+
+  it("runs an overnight window past midnight into the next day", () => {
+    expect(windowContains(overnight, FRIDAY, 23 * 60)).toBe(true);
+    expect(windowContains(overnight, SATURDAY, 60)).toBe(true);
+    expect(windowContains(overnight, SATURDAY, 2 * 60)).toBe(false);
+  });
+
+  it("keeps an overnight window to the days it starts on", () => {
+    expect(windowContains(overnight, FRIDAY, 60)).toBe(false);
+    expect(windowContains(overnight, SATURDAY, 23 * 60)).toBe(false);
+  });
+
+  it("wraps Saturday night into Sunday morning", () => {
+    expect(windowContains({ days: [SATURDAY], start: "20:00", end: "04:00" }, 0, 3 * 60)).toBe(true);
+  });
+
+  it("covers the whole day when the end equals the start", () => {
+    const allDay = { days: [FRIDAY], start: "00:00", end: "00:00" };
+    expect(windowContains(allDay, FRIDAY, 0)).toBe(true);
+    expect(windowContains(allDay, FRIDAY, 24 * 60 - 1)).toBe(true);
+    expect(windowContains(allDay, SATURDAY, 60)).toBe(false);
+  });
+
+  it("accepts 24:00 as the end of the day", () => {
+    expect(windowContains({ days: [FRIDAY], start: "18:00", end: "24:00" }, FRIDAY, 24 * 60 - 1)).toBe(true);
+  });
+});
+
+describe("isWithinSchedule", () => {
+  const schedule = { timezone: "America/New_York", windows: [{ days: [1], start: "09:00", end: "17:00" }] };
+
+  it("reads the window in the schedule's timezone", () => {
+    // Monday 5 January 2026, 09:00 in New York
+    expect(isWithinSchedule(schedule, new Date("2026-01-05T14:00:00Z"))).toBe(true);
+    expect(isWithinSchedule(schedule, new Date("2026-01-05T13:59:00Z"))).toBe(false);
+  });
+
+  it("follows daylight saving time", () => {
+    // Monday 6 July 2026, 09:00 in New York is 13:00 UTC
+    expect(isWithinSchedule(schedule, new Date("2026-07-06T13:00:00Z"))).toBe(true);
+    expect(isWithinSchedule(schedule, new Date("2026-07-06T21:00:00Z"))).toBe(false);
+  });
+});
+
+describe("localTime and wallClockToDate", () => {
+  it("round-trip a wall-clock time in a zone", () => {
+    const at = wallClockToDate(new Date(Date.UTC(2026, 2, 8, 10, 30)), "Asia/Kolkata");
+    expect(at.toISOString()).toBe("2026-03-08T05:00:00.000Z");
+    expect(localTime(at, "Asia/Kolkata")).toEqual({ date: "2026-03-08", day: 0, minutes: 10 * 60 + 30 });
+  });
+});
@@ -0,0 +1,101 @@
+import { z } from "zod";
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function timeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value || "0", 10);
+  const wallClock = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Instant at which the zone's clocks show the given wall-clock time, passed in as the Date's UTC fields
+export function wallClockToDate(wallClock: Date, timeZone: string): Date {
+  // Apply the offset twice so times near a DST change land on the offset in effect at that moment
+  const estimate = wallClock.getTime() - timeZoneOffsetMs(wallClock, timeZone);
+  return new Date(wallClock.getTime() - timeZoneOffsetMs(new Date(estimate), timeZone));
+}
+
+const timeOfDaySchema = z.string().regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, "Times are HH:MM");
+
+export const scheduleWindowSchema = z.object({
+  // 0 is Sunday, 6 is Saturday
+  days: z.array(z.number().int().min(0).max(6)).min(1),
+  start: timeOfDaySchema,
+  // An end at or before the start runs past midnight into the next day
+  end: timeOfDaySchema,
+});
+
+export const weeklyScheduleSchema = z.object({
+  timezone: z.string().refine(isValidTimeZone, "Unknown timezone").default("UTC"),
+  windows: z.array(scheduleWindowSchema).min(1),
+});
+
+export type ScheduleWindow = z.infer<typeof scheduleWindowSchema>;
+export type WeeklySchedule = z.infer<typeof weeklyScheduleSchema>;
+
+export interface LocalTime {
+  // YYYY-MM-DD on the zone's calendar
+  date: string;
+  day: number;
+  minutes: number;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Wall-clock date, weekday and minutes since midnight of an instant in the given zone
+export function localTime(at: Date, timeZone: string): LocalTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const part = (type: string) => parts.find(p => p.type === type)!.value;
+
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    day: WEEKDAYS.indexOf(part("weekday")),
+    minutes: parseInt(part("hour"), 10) * 60 + parseInt(part("minute"), 10),
+  };
+}
+
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+export function windowContains(window: ScheduleWindow, day: number, minutes: number): boolean {
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  if (start < end) {
+    return window.days.includes(day) && minutes >= start && minutes < end;
+  }
+  // Overnight windows belong to the day they start on
+  return (window.days.includes(day) && minutes >= start) || (window.days.includes((day + 6) % 7) && minutes < end);
+}
+
+export function isWithinSchedule(schedule: WeeklySchedule, at: Date = new Date()): boolean {
+  const { day, minutes } = localTime(at, schedule.timezone);
+  return schedule.windows.some(window => windowContains(window, day, minutes));
+}
@@ -0,0 +1,195 @@
+import { storage } from "./storage";
+import { whatsappServices, getWindowRemainingMs, CustomerServiceWindowError, type SendMessageResult } from "./whatsapp";
+import { wallClockToDate } from "./schedules";
+import type { BroadcastFn } from "./webhookWorker";
+import type { Message, Conversation } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 1000;
+const BATCH_SIZE = 50;
+const LEASE_MS = 2 * 60 * 1000;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+const MAX_SEND_ATTEMPTS = parseInt(process.env.OUTBOUND_MAX_ATTEMPTS || "5", 10);
+const MESSAGES_PER_SECOND = parseInt(process.env.OUTBOUND_MESSAGES_PER_SECOND || "20", 10);
+
+// "2026-10-20T09:00" without an offset means 9:00 wall-clock time in the contact's timezone
+export function resolveSendAt(value: string, timeZone?: string | null): Date | null {
+  const hasOffset = /(z|[+-]\d{2}:?\d{2})$/i.test(value);
+  const parsed = new Date(hasOffset || !timeZone ? value : `${value}Z`);
+  if (isNaN(parsed.getTime())) {
+    return null;
+  }
+  if (hasOffset || !timeZone) {
+    return parsed;
+  }
+
+  try {
+    return wallClockToDate(parsed, timeZone);
+  } catch {
+    return null;
+  }
+}
+
+// Token bucket per business phone number, refilled continuously at MESSAGES_PER_SECOND
+class RateLimiter {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  private ratePerSecond: number;
+
+  constructor(ratePerSecond: number) {
+    this.ratePerSecond = ratePerSecond;
+  }
+
+  // Returns 0 when a token was taken, otherwise how long to wait before one is available
+  take(key: string): number {
+    const now = Date.now();
+    const bucket = this.buckets.get(key) || { tokens: this.ratePerSecond, updatedAt: now };
+    bucket.tokens = Math.min(this.ratePerSecond, bucket.tokens + ((now - bucket.updatedAt) / 1000) * this.ratePerSecond);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil(((1 - bucket.tokens) / this.ratePerSecond) * 1000);
+  }
+}
+
+// Background worker delivering pending outbound messages with per-number throttling and retries
+export class OutboundQueue {
+  private broadcast: BroadcastFn | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private limiter = new RateLimiter(MESSAGES_PER_SECOND);
+
+  start(broadcast: BroadcastFn): void {
+    this.broadcast = broadcast;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.broadcast = null;
+  }
+
+  // Send newly queued messages right away instead of waiting for the next poll
+  wake(): void {
+    if (this.broadcast && !this.running) {
+      this.schedule(0);
+    }
+  }
+
+  private schedule(delay: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private async tick(): Promise<void> {
+    this.timer = null;
+    this.running = true;
+
+    try {
+      await storage.releaseDueScheduledMessages();
+
+      const queued = await storage.claimDueOutboundMessages(BATCH_SIZE, LEASE_MS);
+      queued.sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+
+      for (const message of queued) {
+        await this.deliver(message);
+      }
+    } catch (error) {
+      console.error("Outbound queue error:", error);
+    } finally {
+      this.running = false;
+      if (this.broadcast) {
+        this.schedule(POLL_INTERVAL_MS);
+      }
+    }
+  }
+
+  private async deliver(message: Message): Promise<void> {
+    const conversation = message.conversationId ? await storage.getConversation(message.conversationId) : undefined;
+    const service = await whatsappServices.forAccountId(conversation?.whatsappAccountId);
+
+    // Over the number's throughput budget: put the message back without spending an attempt
+    const wait = this.limiter.take(service.getPhoneNumberId() || "default");
+    if (wait > 0) {
+      await storage.updateMessage(message.id, { nextSendAt: new Date(Date.now() + wait) });
+      return;
+    }
+
+    const attempts = (message.sendAttempts || 0) + 1;
+
+    // A retried or delayed free-form message may have outlived the customer service window
+    let result: SendMessageResult;
+    if (message.type !== "template" && conversation && getWindowRemainingMs(conversation) === 0) {
+      const windowError = new CustomerServiceWindowError();
+      result = { success: false, error: windowError.message, errorCode: windowError.code, retryable: false };
+    } else {
+      result = await service.sendStoredMessage(message);
+    }
+
+    if (result.success) {
+      const sent = await storage.updateMessage(message.id, {
+        status: "sent",
+        whatsappMessageId: result.messageId,
+        sendAttempts: attempts,
+        nextSendAt: null,
+        errorCode: null,
+        errorTitle: null,
+      });
+      this.notify(sent, conversation);
+      return;
+    }
+
+    if (result.retryable && attempts < MAX_SEND_ATTEMPTS) {
+      const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+      console.warn(`Send of message ${message.id} failed (attempt ${attempts}/${MAX_SEND_ATTEMPTS}), retrying:`, result.error);
+      await storage.updateMessage(message.id, {
+        sendAttempts: attempts,
+        nextSendAt: new Date(Date.now() + delay),
+        errorCode: result.errorCode || null,
+        errorTitle: result.error || null,
+      });
+      return;
+    }
+
+    console.error(`Send of message ${message.id} failed permanently:`, result.error);
+    const failed = await storage.updateMessage(message.id, {
+      status: "failed",
+      sendAttempts: attempts,
+      nextSendAt: null,
+      errorCode: result.errorCode || null,
+      errorTitle: result.error || "Failed to send message",
+    });
+    this.notify(failed, conversation);
+  }
+
+  private notify(message: Message, conversation: Conversation | undefined): void {
+    if (this.broadcast && conversation?.userId) {
+      this.broadcast(conversation.userId, {
+        type: "message_status",
+        messageId: message.id,
+        conversationId: conversation.id,
+        status: message.status,
+        errorCode: message.errorCode,
+        errorTitle: message.errorTitle,
+      });
+
+      // Scheduled messages were written long ago, so tell the client explicitly when they go out
+      if (message.sendAt && message.status === "sent") {
+        this.broadcast(conversation.userId, {
+          type: "scheduled_message_sent",
+          message,
+        });
+      }
+    }
+  }
+}
+
+export const outboundQueue = new OutboundQueue();
@@ -0,0 +1,645 @@
+import { sql, relations } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, uuid, unique, real, bigint, index } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+
+// Users table with multi-authentication support
+export const users = pgTable("users", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: text("email").unique(),
+  username: text("username"),
+  password: text("password"),
+  phone: text("phone"),
+  role: text("role", { enum: ["user", "admin", "ceo"] }).default("user"),
+  authProvider: text("auth_provider", { enum: ["email", "google", "facebook", "phone", "anonymous"] }),
+  firebaseUid: text("firebase_uid"),
+  isVerified: boolean("is_verified").default(false),
+  verificationToken: text("verification_token"),
+  ceoToken: text("ceo_token"),
+  isActive: boolean("is_active").default(true),
+  lastLogin: timestamp("last_login"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// WhatsApp accounts linked to users
+export const whatsappAccounts = pgTable("whatsapp_accounts", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id),
+  phoneNumberId: text("phone_number_id").notNull(),
+  phoneNumber: text("phone_number").notNull(),
+  accountId: text("account_id").notNull(),
+  accessToken: text("access_token").notNull(),
+  appSecret: text("app_secret"),
+  webhookVerifyToken: text("webhook_verify_token"),
+  // Opening hours, timezone and holidays; null means always open
+  businessHours: jsonb("business_hours"),
+  // Auto reply outside business hours; "{{opensAt}}" is replaced with the next opening time
+  awayMessage: text("away_message"),
+  // Satisfaction survey settings; null sends no surveys
+  csatSurvey: jsonb("csat_survey"),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Contacts for the CRM
+export const contacts = pgTable("contacts", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id),
+  whatsappAccountId: uuid("whatsapp_account_id").references(() => whatsappAccounts.id),
+  name: text("name").notNull(),
+  phone: text("phone").notNull(),
+  email: text("email"),
+  company: text("company"),
+  avatar: text("avatar"),
+  lastMessageAt: timestamp("last_message_at"),
+  isArchived: boolean("is_archived").default(false),
+  optedOut: boolean("opted_out").default(false),
+  timezone: text("timezone"),
+  // Detected from inbound messages; preferredLanguage is set by agents and wins when present
+  language: text("language"),
+  preferredLanguage: text("preferred_language"),
+  tags: jsonb("tags").$type<string[]>(),
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Conversations between users and contacts
+export const conversations = pgTable("conversations", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id),
+  contactId: uuid("contact_id").references(() => contacts.id),
+  whatsappAccountId: uuid("whatsapp_account_id").references(() => whatsappAccounts.id),
+  lastMessageAt: timestamp("last_message_at"),
+  unreadCount: integer("unread_count").default(0),
+  // End of the 24-hour customer service window opened by the contact's last message
+  windowExpiresAt: timestamp("window_expires_at"),
+  // "bot" lets the chatbot answer; "handoff" waits for or is with a human agent; "resolved" was closed by an agent
+  status: text("status", { enum: ["bot", "handoff", "resolved"] }).default("bot"),
+  handoffReason: text("handoff_reason"),
+  handoffAt: timestamp("handoff_at"),
+  // Team chosen by the routing rules, and the agent within it who owns the thread
+  teamId: uuid("team_id").references(() => teams.id),
+  assignedAgentId: uuid("assigned_agent_id").references(() => users.id),
+  claimedAt: timestamp("claimed_at"),
+  resolvedAt: timestamp("resolved_at"),
+  // The away message already went out for the closed period ending at this time
+  awayNoticeUntil: timestamp("away_notice_until"),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Messages in conversations
+export const messages = pgTable("messages", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: uuid("conversation_id").references(() => conversations.id),
+  contactId: uuid("contact_id").references(() => contacts.id),
+  whatsappMessageId: text("whatsapp_message_id").unique(),
+  direction: text("direction", { enum: ["inbound", "outbound"] }).notNull(),
+  type: text("type", { enum: ["text", "image", "audio", "video", "document", "interactive", "template"] }).default("text"),
+  content: text("content"),
+  // Buttons/list we sent, and the reply id a customer picked from one
+  interactive: jsonb("interactive"),
+  replyId: text("reply_id"),
+  // Template this message was sent from, and the filled-in Cloud API template payload
+  templateId: uuid("template_id").references(() => messageTemplates.id),
+  template: jsonb("template").$type<TemplatePayload>(),
+  mediaUrl: text("media_url"),
+  mediaId: text("media_id"),
+  mediaMimeType: text("media_mime_type"),
+  mediaStorageKey: text("media_storage_key"),
+  fileName: text("file_name"),
+  status: text("status", { enum: ["scheduled", "pending", "sent", "delivered", "read", "failed"] }).default("sent"),
+  errorCode: text("error_code"),
+  errorTitle: text("error_title"),
+  sendAttempts: integer("send_attempts").default(0),
+  nextSendAt: timestamp("next_send_at"),
+  sendAt: timestamp("send_at"),
+  isFromBot: boolean("is_from_bot").default(false),
+  // Set once an inbound message has been through the bot, handoff and away replies; until then a redelivery resumes it
+  processedAt: timestamp("processed_at"),
+  timestamp: timestamp("timestamp").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Chatbots configuration
+export const chatbots = pgTable("chatbots", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id),
+  whatsappAccountId: uuid("whatsapp_account_id").references(() => whatsappAccounts.id),
+  name: text("name").notNull(),
+  description: text("description"),
+  template: text("template", { enum: ["corporate", "ecommerce", "healthcare", "education", "finance", "support"] }),
+  isActive: boolean("is_active").default(true),
+  // Higher priorities win when several bots could answer the same message
+  priority: integer("priority").default(0),
+  // Weekly activation windows in the schedule's timezone; null means always on
+  schedule: jsonb("schedule"),
+  // When set, the bot only answers contacts carrying one of these tags
+  contactTags: jsonb("contact_tags"),
+  config: jsonb("config"),
+  triggers: jsonb("triggers").$type<string[]>(),
+  responses: jsonb("responses"),
+  analytics: jsonb("analytics"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Bot interactions for analytics
+export const botInteractions = pgTable("bot_interactions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  chatbotId: uuid("chatbot_id").references(() => chatbots.id),
+  contactId: uuid("contact_id").references(() => contacts.id),
+  messageId: uuid("message_id").references(() => messages.id),
+  trigger: text("trigger"),
+  intent: text("intent"),
+  confidence: real("confidence"),
+  knowledgeArticleId: uuid("knowledge_article_id").references(() => knowledgeArticles.id),
+  response: text("response"),
+  wasEscalated: boolean("was_escalated").default(false),
+  satisfactionScore: integer("satisfaction_score"),
+  responseTime: integer("response_time_ms"),
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
+  llmLatencyMs: integer("llm_latency_ms"),
+  timestamp: timestamp("timestamp").defaultNow(),
+});
+
+// Webhook events log
+export const webhookEvents = pgTable("webhook_events", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  whatsappAccountId: uuid("whatsapp_account_id").references(() => whatsappAccounts.id),
+  eventType: text("event_type").notNull(),
+  payload: jsonb("payload"),
+  processed: boolean("processed").default(false),
+  deadLettered: boolean("dead_lettered").default(false),
+  attempts: integer("attempts").default(0),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  error: text("error"),
+  timestamp: timestamp("timestamp").defaultNow(),
+});
+
+// Message templates (HSM) approved by Meta for starting conversations
+export const messageTemplates = pgTable("message_templates", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id),
+  whatsappAccountId: uuid("whatsapp_account_id").references(() => whatsappAccounts.id),
+  externalId: text("external_id"),
+  name: text("name").notNull(),
+  language: text("language").notNull(),
+  category: text("category", { enum: ["marketing", "utility", "authentication"] }).notNull(),
+  status: text("status", { enum: ["pending", "approved", "rejected", "paused", "disabled"] }).default("pending"),
+  // Cloud API component list: HEADER / BODY / FOOTER / BUTTONS, with {{n}} placeholders in the text
+  components: jsonb("components").$type<TemplateComponent[]>().notNull(),
+  lastSyncedAt: timestamp("last_synced_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.whatsappAccountId, table.name, table.language),
+]);
+
+// Broadcast campaigns sent to a tag/account/activity segment of contacts
+export const campaigns = pgTable("campaigns", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id),
+  whatsappAccountId: uuid("whatsapp_account_id").references(() => whatsappAccounts.id).notNull(),
+  name: text("name").notNull(),
+  status: text("status", { enum: ["draft", "scheduled", "running", "completed", "cancelled"] }).default("draft"),
+  segment: jsonb("segment"),
+  templateId: uuid("template_id").references(() => messageTemplates.id),
+  templateParameters: jsonb("template_parameters"),
+  content: text("content"),
+  startAt: timestamp("start_at"),
+  ratePerMinute: integer("rate_per_minute").default(60),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One row per contact targeted by a campaign
+export const campaignRecipients = pgTable("campaign_recipients", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: uuid("campaign_id").references(() => campaigns.id).notNull(),
+  contactId: uuid("contact_id").references(() => contacts.id).notNull(),
+  messageId: uuid("message_id").references(() => messages.id),
+  status: text("status", { enum: ["pending", "queued", "skipped", "failed"] }).default("pending"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.campaignId, table.contactId),
+]);
+
+// Where each conversation currently is in its bot's flow
+export const botSessions = pgTable("bot_sessions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: uuid("conversation_id").references(() => conversations.id).notNull().unique(),
+  chatbotId: uuid("chatbot_id").references(() => chatbots.id).notNull(),
+  currentNode: text("current_node"),
+  variables: jsonb("variables").$type<Record<string, string>>(),
+  expiresAt: timestamp("expires_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// FAQ entries and document sections a chatbot can answer from
+export const knowledgeArticles = pgTable("knowledge_articles", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  chatbotId: uuid("chatbot_id").references(() => chatbots.id).notNull(),
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  kind: text("kind", { enum: ["faq", "document"] }).default("faq"),
+  tags: jsonb("tags"),
+  language: text("language"),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Groups of agents sharing an inbox within a user's workspace
+export const teams = pgTable("teams", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  assignmentStrategy: text("assignment_strategy", { enum: ["round_robin", "least_open"] }).default("round_robin"),
+  // Round-robin continues with the member after this one
+  lastAssignedAgentId: uuid("last_assigned_agent_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const teamMembers = pgTable("team_members", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  teamId: uuid("team_id").references(() => teams.id).notNull(),
+  agentId: uuid("agent_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.teamId, table.agentId),
+]);
+
+// Picks the team for a handed-off conversation; every condition that is set must hold
+export const routingRules = pgTable("routing_rules", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  teamId: uuid("team_id").references(() => teams.id).notNull(),
+  name: text("name").notNull(),
+  // Higher priorities are checked first
+  priority: integer("priority").default(0),
+  whatsappAccountId: uuid("whatsapp_account_id").references(() => whatsappAccounts.id),
+  tag: text("tag"),
+  intent: text("intent"),
+  keywords: jsonb("keywords"),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Satisfaction surveys sent when a conversation is resolved or goes quiet, and the contact's answer
+export const csatSurveys = pgTable("csat_surveys", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  conversationId: uuid("conversation_id").references(() => conversations.id).notNull(),
+  contactId: uuid("contact_id").references(() => contacts.id),
+  // The message carrying the question
+  messageId: uuid("message_id").references(() => messages.id),
+  trigger: text("trigger", { enum: ["resolved", "idle"] }).notNull(),
+  // Who the score is about: the agent who handled the conversation, or the bot and its last reply
+  agentId: uuid("agent_id").references(() => users.id),
+  chatbotId: uuid("chatbot_id").references(() => chatbots.id),
+  botInteractionId: uuid("bot_interaction_id").references(() => botInteractions.id),
+  score: integer("score"),
+  sentAt: timestamp("sent_at").defaultNow(),
+  // Answers after this are treated as ordinary messages
+  expiresAt: timestamp("expires_at").notNull(),
+  answeredAt: timestamp("answered_at"),
+});
+
+// Activity per account and bot in 15-minute buckets, kept current by the analytics rollup so dashboards never scan messages
+export const analyticsRollups = pgTable("analytics_rollups", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  bucketStart: timestamp("bucket_start").notNull(),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  whatsappAccountId: uuid("whatsapp_account_id").references(() => whatsappAccounts.id),
+  // The bot that last answered in the conversation; null for activity before any bot reply
+  chatbotId: uuid("chatbot_id").references(() => chatbots.id),
+  inboundMessages: integer("inbound_messages").default(0),
+  outboundMessages: integer("outbound_messages").default(0),
+  botInteractions: integer("bot_interactions").default(0),
+  fallbacks: integer("fallbacks").default(0),
+  escalations: integer("escalations").default(0),
+  // Conversations the bot answered in that bucket, and those it did so without escalating
+  botConversations: integer("bot_conversations").default(0),
+  containedConversations: integer("contained_conversations").default(0),
+  // First replies to a customer's message and the total wait before them
+  firstResponses: integer("first_responses").default(0),
+  firstResponseMsTotal: bigint("first_response_ms_total", { mode: "number" }).default(0),
+  // Handoffs resolved and the total time from handoff to resolution
+  resolutions: integer("resolutions").default(0),
+  resolutionMsTotal: bigint("resolution_ms_total", { mode: "number" }).default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("analytics_rollups_user_bucket_idx").on(table.userId, table.bucketStart),
+]);
+
+// Relations
+export const usersRelations = relations(users, ({ many }) => ({
+  whatsappAccounts: many(whatsappAccounts),
+  contacts: many(contacts),
+  conversations: many(conversations),
+  chatbots: many(chatbots),
+}));
+
+export const whatsappAccountsRelations = relations(whatsappAccounts, ({ one, many }) => ({
+  user: one(users, { fields: [whatsappAccounts.userId], references: [users.id] }),
+  contacts: many(contacts),
+  conversations: many(conversations),
+  chatbots: many(chatbots),
+  webhookEvents: many(webhookEvents),
+}));
+
+export const contactsRelations = relations(contacts, ({ one, many }) => ({
+  user: one(users, { fields: [contacts.userId], references: [users.id] }),
+  whatsappAccount: one(whatsappAccounts, { fields: [contacts.whatsappAccountId], references: [whatsappAccounts.id] }),
+  conversations: many(conversations),
+  messages: many(messages),
+  botInteractions: many(botInteractions),
+}));
+
+export const conversationsRelations = relations(conversations, ({ one, many }) => ({
+  user: one(users, { fields: [conversations.userId], references: [users.id] }),
+  contact: one(contacts, { fields: [conversations.contactId], references: [contacts.id] }),
+  whatsappAccount: one(whatsappAccounts, { fields: [conversations.whatsappAccountId], references: [whatsappAccounts.id] }),
+  team: one(teams, { fields: [conversations.teamId], references: [teams.id] }),
+  messages: many(messages),
+}));
+
+export const messagesRelations = relations(messages, ({ one }) => ({
+  conversation: one(conversations, { fields: [messages.conversationId], references: [conversations.id] }),
+  contact: one(contacts, { fields: [messages.contactId], references: [contacts.id] }),
+  template: one(messageTemplates, { fields: [messages.templateId], references: [messageTemplates.id] }),
+}));
+
+export const chatbotsRelations = relations(chatbots, ({ one, many }) => ({
+  user: one(users, { fields: [chatbots.userId], references: [users.id] }),
+  whatsappAccount: one(whatsappAccounts, { fields: [chatbots.whatsappAccountId], references: [whatsappAccounts.id] }),
+  interactions: many(botInteractions),
+}));
+
+export const botInteractionsRelations = relations(botInteractions, ({ one }) => ({
+  chatbot: one(chatbots, { fields: [botInteractions.chatbotId], references: [chatbots.id] }),
+  contact: one(contacts, { fields: [botInteractions.contactId], references: [contacts.id] }),
+  message: one(messages, { fields: [botInteractions.messageId], references: [messages.id] }),
+}));
+
+export const webhookEventsRelations = relations(webhookEvents, ({ one }) => ({
+  whatsappAccount: one(whatsappAccounts, { fields: [webhookEvents.whatsappAccountId], references: [whatsappAccounts.id] }),
+}));
+
+export const messageTemplatesRelations = relations(messageTemplates, ({ one }) => ({
+  user: one(users, { fields: [messageTemplates.userId], references: [users.id] }),
+  whatsappAccount: one(whatsappAccounts, { fields: [messageTemplates.whatsappAccountId], references: [whatsappAccounts.id] }),
+}));
+
+export const campaignsRelations = relations(campaigns, ({ one, many }) => ({
+  user: one(users, { fields: [campaigns.userId], references: [users.id] }),
+  whatsappAccount: one(whatsappAccounts, { fields: [campaigns.whatsappAccountId], references: [whatsappAccounts.id] }),
+  template: one(messageTemplates, { fields: [campaigns.templateId], references: [messageTemplates.id] }),
+  recipients: many(campaignRecipients),
+}));
+
+export const campaignRecipientsRelations = relations(campaignRecipients, ({ one }) => ({
+  campaign: one(campaigns, { fields: [campaignRecipients.campaignId], references: [campaigns.id] }),
+  contact: one(contacts, { fields: [campaignRecipients.contactId], references: [contacts.id] }),
+  message: one(messages, { fields: [campaignRecipients.messageId], references: [messages.id] }),
+}));
+
+export const botSessionsRelations = relations(botSessions, ({ one }) => ({
+  conversation: one(conversations, { fields: [botSessions.conversationId], references: [conversations.id] }),
+  chatbot: one(chatbots, { fields: [botSessions.chatbotId], references: [chatbots.id] }),
+}));
+
+export const knowledgeArticlesRelations = relations(knowledgeArticles, ({ one }) => ({
+  chatbot: one(chatbots, { fields: [knowledgeArticles.chatbotId], references: [chatbots.id] }),
+}));
+
+export const teamsRelations = relations(teams, ({ one, many }) => ({
+  user: one(users, { fields: [teams.userId], references: [users.id] }),
+  members: many(teamMembers),
+  routingRules: many(routingRules),
+  conversations: many(conversations),
+}));
+
+export const teamMembersRelations = relations(teamMembers, ({ one }) => ({
+  team: one(teams, { fields: [teamMembers.teamId], references: [teams.id] }),
+  agent: one(users, { fields: [teamMembers.agentId], references: [users.id] }),
+}));
+
+export const routingRulesRelations = relations(routingRules, ({ one }) => ({
+  team: one(teams, { fields: [routingRules.teamId], references: [teams.id] }),
+  whatsappAccount: one(whatsappAccounts, { fields: [routingRules.whatsappAccountId], references: [whatsappAccounts.id] }),
+}));
+
+export const csatSurveysRelations = relations(csatSurveys, ({ one }) => ({
+  conversation: one(conversations, { fields: [csatSurveys.conversationId], references: [conversations.id] }),
+  agent: one(users, { fields: [csatSurveys.agentId], references: [users.id] }),
+  chatbot: one(chatbots, { fields: [csatSurveys.chatbotId], references: [chatbots.id] }),
+  botInteraction: one(botInteractions, { fields: [csatSurveys.botInteractionId], references: [botInteractions.id] }),
+}));
+
+// Shapes of typed JSON columns
+export const templateComponentSchema = z.object({
+  type: z.enum(["HEADER", "BODY", "FOOTER", "BUTTONS"]),
+  format: z.enum(["TEXT", "IMAGE", "VIDEO", "DOCUMENT"]).optional(),
+  text: z.string().optional(),
+  buttons: z.array(z.object({
+    type: z.string(),
+    text: z.string(),
+    url: z.string().optional(),
+    phone_number: z.string().optional(),
+  })).optional(),
+});
+
+export type TemplateComponent = z.infer<typeof templateComponentSchema>;
+
+// Template send payload with the {{n}} parameters filled in, in component order
+export const templatePayloadSchema = z.object({
+  name: z.string(),
+  language: z.object({ code: z.string() }),
+  components: z.array(z.object({
+    type: z.enum(["header", "body"]),
+    parameters: z.array(z.discriminatedUnion("type", [
+      z.object({ type: z.literal("text"), text: z.string() }),
+      z.object({ type: z.literal("image"), image: z.object({ link: z.string() }) }),
+      z.object({ type: z.literal("video"), video: z.object({ link: z.string() }) }),
+      z.object({ type: z.literal("document"), document: z.object({ link: z.string() }) }),
+    ])),
+  })).optional(),
+});
+
+export type TemplatePayload = z.infer<typeof templatePayloadSchema>;
+
+// Insert schemas
+export const insertUserSchema = createInsertSchema(users).omit({
+  id: true,
+  createdAt: true,
+  lastLogin: true,
+});
+
+export const insertWhatsappAccountSchema = createInsertSchema(whatsappAccounts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertContactSchema = createInsertSchema(contacts, {
+  tags: z.array(z.string()).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  lastMessageAt: true,
+});
+
+export const insertConversationSchema = createInsertSchema(conversations).omit({
+  id: true,
+  createdAt: true,
+  lastMessageAt: true,
+});
+
+export const insertMessageSchema = createInsertSchema(messages, {
+  template: templatePayloadSchema.nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  timestamp: true,
+});
+
+export const insertChatbotSchema = createInsertSchema(chatbots, {
+  triggers: z.array(z.string()).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertBotInteractionSchema = createInsertSchema(botInteractions).omit({
+  id: true,
+  timestamp: true,
+});
+
+export const insertWebhookEventSchema = createInsertSchema(webhookEvents).omit({
+  id: true,
+  timestamp: true,
+});
+
+export const insertMessageTemplateSchema = createInsertSchema(messageTemplates, {
+  components: z.array(templateComponentSchema),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCampaignSchema = createInsertSchema(campaigns).omit({
+  id: true,
+  createdAt: true,
+  startedAt: true,
+  completedAt: true,
+});
+
+export const insertCampaignRecipientSchema = createInsertSchema(campaignRecipients).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertBotSessionSchema = createInsertSchema(botSessions, {
+  variables: z.record(z.string()).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertKnowledgeArticleSchema = createInsertSchema(knowledgeArticles).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTeamSchema = createInsertSchema(teams).omit({
+  id: true,
+  createdAt: true,
+  lastAssignedAgentId: true,
+});
+
+export const insertTeamMemberSchema = createInsertSchema(teamMembers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRoutingRuleSchema = createInsertSchema(routingRules).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCsatSurveySchema = createInsertSchema(csatSurveys).omit({
+  id: true,
+  sentAt: true,
+});
+
+export const insertAnalyticsRollupSchema = createInsertSchema(analyticsRollups).omit({
+  id: true,
+  updatedAt: true,
+});
+
+// Types
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+
+export type InsertWhatsappAccount = z.infer<typeof insertWhatsappAccountSchema>;
+export type WhatsappAccount = typeof whatsappAccounts.$inferSelect;
+
+export type InsertContact = z.infer<typeof insertContactSchema>;
+export type Contact = typeof contacts.$inferSelect;
+
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
+export type Conversation = typeof conversations.$inferSelect;
+
+export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type Message = typeof messages.$inferSelect;
+
+export type InsertChatbot = z.infer<typeof insertChatbotSchema>;
+export type Chatbot = typeof chatbots.$inferSelect;
+
+export type InsertBotInteraction = z.infer<typeof insertBotInteractionSchema>;
+export type BotInteraction = typeof botInteractions.$inferSelect;
+
+export type InsertWebhookEvent = z.infer<typeof insertWebhookEventSchema>;
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+
+export type InsertMessageTemplate = z.infer<typeof insertMessageTemplateSchema>;
+export type MessageTemplate = typeof messageTemplates.$inferSelect;
+
+// Contacts match when they carry any of the tags and were last active inside the window
+export interface CampaignSegment {
+  tags?: string[];
+  lastActivityAfter?: string;
+  lastActivityBefore?: string;
+}
+
+export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
+export type Campaign = typeof campaigns.$inferSelect;
+
+export type InsertCampaignRecipient = z.infer<typeof insertCampaignRecipientSchema>;
+export type CampaignRecipient = typeof campaignRecipients.$inferSelect;
+
+export type InsertBotSession = z.infer<typeof insertBotSessionSchema>;
+export type BotSession = typeof botSessions.$inferSelect;
+
+export type InsertKnowledgeArticle = z.infer<typeof insertKnowledgeArticleSchema>;
+export type KnowledgeArticle = typeof knowledgeArticles.$inferSelect;
+
+export type InsertTeam = z.infer<typeof insertTeamSchema>;
+export type Team = typeof teams.$inferSelect;
+
+export type InsertTeamMember = z.infer<typeof insertTeamMemberSchema>;
+export type TeamMember = typeof teamMembers.$inferSelect;
+
+export type InsertRoutingRule = z.infer<typeof insertRoutingRuleSchema>;
+export type RoutingRule = typeof routingRules.$inferSelect;
+
+export type InsertCsatSurvey = z.infer<typeof insertCsatSurveySchema>;
+export type CsatSurvey = typeof csatSurveys.$inferSelect;
+
+export type InsertAnalyticsRollup = z.infer<typeof insertAnalyticsRollupSchema>;
+export type AnalyticsRollup = typeof analyticsRollups.$inferSelect;
@@ -1,13 +1,65 @@
 import { 
   users, whatsappAccounts, contacts, conversations, messages, 
-  chatbots, botInteractions, webhookEvents,
+  chatbots, botInteractions, webhookEvents, messageTemplates, campaigns, campaignRecipients, botSessions, knowledgeArticles,
   type User, type InsertUser, type WhatsappAccount, type InsertWhatsappAccount,
   type Contact, type InsertContact, type Conversation, type InsertConversation,
   type Message, type InsertMessage, type Chatbot, type InsertChatbot,
-  type BotInteraction, type InsertBotInteraction, type WebhookEvent, type InsertWebhookEvent
+  type BotInteraction, type InsertBotInteraction, type WebhookEvent, type InsertWebhookEvent,
+  type MessageTemplate, type InsertMessageTemplate, type Campaign, type InsertCampaign,
+  type CampaignRecipient, type InsertCampaignRecipient, type CampaignSegment,
+  type BotSession, type InsertBotSession, type KnowledgeArticle, type InsertKnowledgeArticle,
+  teams, teamMembers, routingRules, type Team, type InsertTeam, type TeamMember, type InsertTeamMember,
+  type RoutingRule, type InsertRoutingRule, csatSurveys, type CsatSurvey, type InsertCsatSurvey,
+  analyticsRollups, type InsertAnalyticsRollup
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, sql, count } from "drizzle-orm";
+import { eq, and, or, desc, sql, count, inArray, isNull, isNotNull, lte, gte, gt, lt, getTableName, type SQL, type AnyColumn } from "drizzle-orm";
+
+export type WebhookEventState = "pending" | "processed" | "dead_letter";
+
+export interface CampaignStats {
+  recipients: number;
+  pending: number;
+  skipped: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  failed: number;
+  replied: number;
+}
+
+export interface CsatSummary {
+  sent: number;
+  answered: number;
+  // Mean score of the answered surveys, null before the first answer
+  average: number | null;
+  // Answers per score, "1" through "5"
+  distribution: Record<string, number>;
+}
+
+// Additive counters of the 15-minute analytics rollups; rates and averages are derived from them
+export interface AnalyticsCounts {
+  inboundMessages: number;
+  outboundMessages: number;
+  botInteractions: number;
+  fallbacks: number;
+  escalations: number;
+  botConversations: number;
+  containedConversations: number;
+  firstResponses: number;
+  firstResponseMsTotal: number;
+  resolutions: number;
+  resolutionMsTotal: number;
+}
+
+export interface AnalyticsRollupFilter {
+  userId: string;
+  from: Date;
+  to: Date;
+  whatsappAccountId?: string;
+  chatbotId?: string;
+  splitBy?: "whatsappAccount" | "chatbot";
+}
 
 export interface IStorage {
   // User management
@@ -20,6 +72,8 @@ export interface IStorage {
   // WhatsApp account management
   getWhatsappAccount(id: string): Promise<WhatsappAccount | undefined>;
   getWhatsappAccountsByUser(userId: string): Promise<WhatsappAccount[]>;
+  getWhatsappAccountByPhoneNumberId(phoneNumberId: string): Promise<WhatsappAccount | undefined>;
+  getActiveWhatsappAccounts(): Promise<WhatsappAccount[]>;
   createWhatsappAccount(account: InsertWhatsappAccount): Promise<WhatsappAccount>;
   updateWhatsappAccount(id: string, updates: Partial<WhatsappAccount>): Promise<WhatsappAccount>;
   
@@ -34,13 +88,24 @@ export interface IStorage {
   getConversation(id: string): Promise<Conversation | undefined>;
   getConversationsByUser(userId: string): Promise<Conversation[]>;
   getConversationByContact(contactId: string): Promise<Conversation | undefined>;
+  getConversationByContactAndAccount(contactId: string, whatsappAccountId: string): Promise<Conversation | undefined>;
   createConversation(conversation: InsertConversation): Promise<Conversation>;
   updateConversation(id: string, updates: Partial<Conversation>): Promise<Conversation>;
+  getHandoffQueue(userId: string): Promise<Conversation[]>;
+  getHandoffQueueForAgent(agentId: string): Promise<Conversation[]>;
+  claimConversation(id: string, agentId: string): Promise<Conversation | undefined>;
   
   // Message management
   getMessage(id: string): Promise<Message | undefined>;
   getMessagesByConversation(conversationId: string): Promise<Message[]>;
+  getMessageByWhatsappId(whatsappMessageId: string): Promise<Message | undefined>;
   createMessage(message: InsertMessage): Promise<Message>;
+  createInboundMessage(message: InsertMessage, conversationUpdates: Partial<Conversation>): Promise<Message | undefined>;
+  claimDueOutboundMessages(limit: number, leaseMs: number): Promise<Message[]>;
+  getScheduledMessagesByUser(userId: string): Promise<Message[]>;
+  updateScheduledMessage(id: string, updates: Partial<Message>): Promise<Message | undefined>;
+  deleteScheduledMessage(id: string): Promise<boolean>;
+  releaseDueScheduledMessages(): Promise<Message[]>;
   updateMessage(id: string, updates: Partial<Message>): Promise<Message>;
   
   // Chatbot management
@@ -53,10 +118,80 @@ export interface IStorage {
   createBotInteraction(interaction: InsertBotInteraction): Promise<BotInteraction>;
   getBotInteractionsByBot(chatbotId: string): Promise<BotInteraction[]>;
   
+  // Bot sessions
+  getBotSession(conversationId: string): Promise<BotSession | undefined>;
+  saveBotSession(session: InsertBotSession): Promise<BotSession>;
+  deleteBotSession(conversationId: string): Promise<void>;
+  
+  // Knowledge base
+  getKnowledgeArticle(id: string): Promise<KnowledgeArticle | undefined>;
+  getKnowledgeArticlesByChatbot(chatbotId: string): Promise<KnowledgeArticle[]>;
+  createKnowledgeArticles(articles: InsertKnowledgeArticle[]): Promise<KnowledgeArticle[]>;
+  updateKnowledgeArticle(id: string, updates: Partial<KnowledgeArticle>): Promise<KnowledgeArticle>;
+  deleteKnowledgeArticle(id: string): Promise<void>;
+  
   // Webhook management
   createWebhookEvent(event: InsertWebhookEvent): Promise<WebhookEvent>;
   getUnprocessedWebhookEvents(): Promise<WebhookEvent[]>;
   markWebhookEventProcessed(id: string): Promise<void>;
+  getWebhookEvent(id: string): Promise<WebhookEvent | undefined>;
+  getWebhookEvents(state?: WebhookEventState, limit?: number): Promise<WebhookEvent[]>;
+  claimDueWebhookEvents(limit: number, leaseMs: number): Promise<WebhookEvent[]>;
+  updateWebhookEvent(id: string, updates: Partial<WebhookEvent>): Promise<WebhookEvent>;
+  
+  // Message templates
+  getMessageTemplate(id: string): Promise<MessageTemplate | undefined>;
+  getMessageTemplatesByUser(userId: string): Promise<MessageTemplate[]>;
+  createMessageTemplate(template: InsertMessageTemplate): Promise<MessageTemplate>;
+  upsertMessageTemplate(template: InsertMessageTemplate): Promise<MessageTemplate>;
+  
+  // Campaigns
+  getCampaign(id: string): Promise<Campaign | undefined>;
+  getCampaignsByUser(userId: string): Promise<Campaign[]>;
+  getDueCampaigns(): Promise<Campaign[]>;
+  createCampaign(campaign: InsertCampaign): Promise<Campaign>;
+  updateCampaign(id: string, updates: Partial<Campaign>): Promise<Campaign>;
+  getSegmentContacts(userId: string, whatsappAccountId: string, segment: CampaignSegment): Promise<Contact[]>;
+  createCampaignRecipients(recipients: InsertCampaignRecipient[]): Promise<void>;
+  getCampaignRecipients(campaignId: string): Promise<CampaignRecipient[]>;
+  getPendingCampaignRecipients(campaignId: string, limit: number): Promise<CampaignRecipient[]>;
+  updateCampaignRecipient(id: string, updates: Partial<CampaignRecipient>): Promise<CampaignRecipient>;
+  getCampaignStats(campaignId: string): Promise<CampaignStats>;
+  
+  // Teams and routing
+  getTeam(id: string): Promise<Team | undefined>;
+  getTeamsByUser(userId: string): Promise<Team[]>;
+  getTeamsByAgent(agentId: string): Promise<Team[]>;
+  createTeam(team: InsertTeam): Promise<Team>;
+  updateTeam(id: string, updates: Partial<Team>): Promise<Team>;
+  deleteTeam(id: string): Promise<void>;
+  getTeamMembers(teamId: string): Promise<TeamMember[]>;
+  addTeamMember(member: InsertTeamMember): Promise<TeamMember>;
+  removeTeamMember(teamId: string, agentId: string): Promise<boolean>;
+  getRoutingRule(id: string): Promise<RoutingRule | undefined>;
+  getRoutingRulesByUser(userId: string): Promise<RoutingRule[]>;
+  createRoutingRule(rule: InsertRoutingRule): Promise<RoutingRule>;
+  updateRoutingRule(id: string, updates: Partial<RoutingRule>): Promise<RoutingRule>;
+  deleteRoutingRule(id: string): Promise<void>;
+  countOpenConversationsByAgent(agentIds: string[]): Promise<Record<string, number>>;
+  getOpenConversationsByAgent(agentId: string): Promise<Conversation[]>;
+  getUnassignedTeamConversations(teamIds: string[]): Promise<Conversation[]>;
+
+  // Satisfaction surveys
+  createCsatSurvey(survey: InsertCsatSurvey): Promise<CsatSurvey>;
+  updateCsatSurvey(id: string, updates: Partial<CsatSurvey>): Promise<CsatSurvey>;
+  getOpenCsatSurvey(conversationId: string): Promise<CsatSurvey | undefined>;
+  getConversationsIdleSince(whatsappAccountId: string, idleSince: Date): Promise<Conversation[]>;
+  getUnratedBotInteraction(conversationId: string): Promise<BotInteraction | undefined>;
+  updateBotInteraction(id: string, updates: Partial<BotInteraction>): Promise<BotInteraction>;
+  getCsatSummaryByChatbot(chatbotId: string): Promise<CsatSummary>;
+  getCsatSummaryByAgent(userId: string): Promise<Array<CsatSummary & { agentId: string }>>;
+
+  // Analytics rollups
+  rebuildAnalyticsRollups(from: Date, to: Date): Promise<number>;
+  getLatestAnalyticsRollup(): Promise<Date | null>;
+  getEarliestMessageAt(): Promise<Date | null>;
+  getAnalyticsRollups(filter: AnalyticsRollupFilter): Promise<Array<AnalyticsCounts & { bucketStart: Date; key: string | null }>>;
   
   // Analytics
   getUserStats(userId: string): Promise<{
@@ -109,6 +244,15 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(whatsappAccounts).where(eq(whatsappAccounts.userId, userId));
   }
 
+  async getWhatsappAccountByPhoneNumberId(phoneNumberId: string): Promise<WhatsappAccount | undefined> {
+    const [account] = await db.select().from(whatsappAccounts).where(eq(whatsappAccounts.phoneNumberId, phoneNumberId));
+    return account || undefined;
+  }
+
+  async getActiveWhatsappAccounts(): Promise<WhatsappAccount[]> {
+    return await db.select().from(whatsappAccounts).where(eq(whatsappAccounts.isActive, true));
+  }
+
   async createWhatsappAccount(insertAccount: InsertWhatsappAccount): Promise<WhatsappAccount> {
     const [account] = await db.insert(whatsappAccounts).values(insertAccount).returning();
     return account;
@@ -163,6 +307,12 @@ export class DatabaseStorage implements IStorage {
     return conversation || undefined;
   }
 
+  async getConversationByContactAndAccount(contactId: string, whatsappAccountId: string): Promise<Conversation | undefined> {
+    const [conversation] = await db.select().from(conversations)
+      .where(and(eq(conversations.contactId, contactId), eq(conversations.whatsappAccountId, whatsappAccountId)));
+    return conversation || undefined;
+  }
+
   async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
     const [conversation] = await db.insert(conversations).values(insertConversation).returning();
     return conversation;
@@ -173,6 +323,33 @@ export class DatabaseStorage implements IStorage {
     return conversation;
   }
 
+  // Conversations waiting for or being handled by an agent, longest waiting first
+  async getHandoffQueue(userId: string): Promise<Conversation[]> {
+    return await db.select().from(conversations)
+      .where(and(eq(conversations.userId, userId), eq(conversations.status, "handoff")))
+      .orderBy(conversations.handoffAt);
+  }
+
+  // Handoffs in the agent's teams plus any assigned to them directly
+  async getHandoffQueueForAgent(agentId: string): Promise<Conversation[]> {
+    const agentTeams = db.select({ id: teamMembers.teamId }).from(teamMembers).where(eq(teamMembers.agentId, agentId));
+    return await db.select().from(conversations)
+      .where(and(
+        eq(conversations.status, "handoff"),
+        or(inArray(conversations.teamId, agentTeams), eq(conversations.assignedAgentId, agentId))
+      ))
+      .orderBy(conversations.handoffAt);
+  }
+
+  // Only one agent wins when several claim the same conversation at once
+  async claimConversation(id: string, agentId: string): Promise<Conversation | undefined> {
+    const [conversation] = await db.update(conversations)
+      .set({ assignedAgentId: agentId, claimedAt: new Date() })
+      .where(and(eq(conversations.id, id), eq(conversations.status, "handoff"), isNull(conversations.assignedAgentId)))
+      .returning();
+    return conversation || undefined;
+  }
+
   async getMessage(id: string): Promise<Message | undefined> {
     const [message] = await db.select().from(messages).where(eq(messages.id, id));
     return message || undefined;
@@ -184,11 +361,82 @@ export class DatabaseStorage implements IStorage {
       .orderBy(messages.timestamp);
   }
 
+  async getMessageByWhatsappId(whatsappMessageId: string): Promise<Message | undefined> {
+    const [message] = await db.select().from(messages).where(eq(messages.whatsappMessageId, whatsappMessageId));
+    return message || undefined;
+  }
+
   async createMessage(insertMessage: InsertMessage): Promise<Message> {
     const [message] = await db.insert(messages).values(insertMessage).returning();
     return message;
   }
 
+  // Stores a customer message and counts it as unread in one transaction, so a retried delivery never counts it twice;
+  // undefined when the message was already stored
+  async createInboundMessage(insertMessage: InsertMessage, conversationUpdates: Partial<Conversation>): Promise<Message | undefined> {
+    return await db.transaction(async (tx) => {
+      const [message] = await tx.insert(messages).values(insertMessage)
+        .onConflictDoNothing({ target: messages.whatsappMessageId })
+        .returning();
+      if (message?.conversationId) {
+        await tx.update(conversations)
+          .set({ ...conversationUpdates, unreadCount: sql`coalesce(${conversations.unreadCount}, 0) + 1` })
+          .where(eq(conversations.id, message.conversationId));
+      }
+      return message || undefined;
+    });
+  }
+
+  // Same leasing scheme as claimDueWebhookEvents, applied to pending outbound messages
+  async claimDueOutboundMessages(limit: number, leaseMs: number): Promise<Message[]> {
+    const now = new Date();
+    const due = db.select({ id: messages.id }).from(messages)
+      .where(and(
+        eq(messages.direction, "outbound"),
+        eq(messages.status, "pending"),
+        or(isNull(messages.nextSendAt), lte(messages.nextSendAt, now))
+      ))
+      .orderBy(messages.createdAt)
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db.update(messages)
+      .set({ nextSendAt: new Date(now.getTime() + leaseMs) })
+      .where(inArray(messages.id, due))
+      .returning();
+  }
+
+  async getScheduledMessagesByUser(userId: string): Promise<Message[]> {
+    const rows = await db.select({ message: messages }).from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(and(eq(conversations.userId, userId), eq(messages.status, "scheduled")))
+      .orderBy(messages.sendAt);
+    return rows.map(row => row.message);
+  }
+
+  // Only applies while the message is still scheduled, so edits can't race the scheduler
+  async updateScheduledMessage(id: string, updates: Partial<Message>): Promise<Message | undefined> {
+    const [message] = await db.update(messages).set(updates)
+      .where(and(eq(messages.id, id), eq(messages.status, "scheduled")))
+      .returning();
+    return message || undefined;
+  }
+
+  async deleteScheduledMessage(id: string): Promise<boolean> {
+    const deleted = await db.delete(messages)
+      .where(and(eq(messages.id, id), eq(messages.status, "scheduled")))
+      .returning({ id: messages.id });
+    return deleted.length > 0;
+  }
+
+  // Hands scheduled messages whose send time has come to the outbound queue
+  async releaseDueScheduledMessages(): Promise<Message[]> {
+    return await db.update(messages)
+      .set({ status: "pending" })
+      .where(and(eq(messages.status, "scheduled"), lte(messages.sendAt, new Date())))
+      .returning();
+  }
+
   async updateMessage(id: string, updates: Partial<Message>): Promise<Message> {
     const [message] = await db.update(messages).set(updates).where(eq(messages.id, id)).returning();
     return message;
@@ -224,6 +472,64 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(botInteractions.timestamp));
   }
 
+  async getBotSession(conversationId: string): Promise<BotSession | undefined> {
+    const [session] = await db.select().from(botSessions).where(eq(botSessions.conversationId, conversationId));
+    return session || undefined;
+  }
+
+  // One session per conversation; switching bots simply overwrites it
+  async saveBotSession(insertSession: InsertBotSession): Promise<BotSession> {
+    const [session] = await db.insert(botSessions).values(insertSession)
+      .onConflictDoUpdate({
+        target: botSessions.conversationId,
+        set: {
+          chatbotId: insertSession.chatbotId,
+          currentNode: insertSession.currentNode,
+          variables: insertSession.variables,
+          expiresAt: insertSession.expiresAt,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return session;
+  }
+
+  async deleteBotSession(conversationId: string): Promise<void> {
+    await db.delete(botSessions).where(eq(botSessions.conversationId, conversationId));
+  }
+
+  async getKnowledgeArticle(id: string): Promise<KnowledgeArticle | undefined> {
+    const [article] = await db.select().from(knowledgeArticles).where(eq(knowledgeArticles.id, id));
+    return article || undefined;
+  }
+
+  async getKnowledgeArticlesByChatbot(chatbotId: string): Promise<KnowledgeArticle[]> {
+    return await db.select().from(knowledgeArticles)
+      .where(eq(knowledgeArticles.chatbotId, chatbotId))
+      .orderBy(knowledgeArticles.title);
+  }
+
+  async createKnowledgeArticles(insertArticles: InsertKnowledgeArticle[]): Promise<KnowledgeArticle[]> {
+    if (insertArticles.length === 0) {
+      return [];
+    }
+    return await db.insert(knowledgeArticles).values(insertArticles).returning();
+  }
+
+  async updateKnowledgeArticle(id: string, updates: Partial<KnowledgeArticle>): Promise<KnowledgeArticle> {
+    const [article] = await db.update(knowledgeArticles)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(knowledgeArticles.id, id))
+      .returning();
+    return article;
+  }
+
+  // Interactions keep their history, so detach them before removing the article
+  async deleteKnowledgeArticle(id: string): Promise<void> {
+    await db.update(botInteractions).set({ knowledgeArticleId: null }).where(eq(botInteractions.knowledgeArticleId, id));
+    await db.delete(knowledgeArticles).where(eq(knowledgeArticles.id, id));
+  }
+
   async createWebhookEvent(insertEvent: InsertWebhookEvent): Promise<WebhookEvent> {
     const [event] = await db.insert(webhookEvents).values(insertEvent).returning();
     return event;
@@ -241,6 +547,557 @@ export class DatabaseStorage implements IStorage {
       .where(eq(webhookEvents.id, id));
   }
 
+  async getWebhookEvent(id: string): Promise<WebhookEvent | undefined> {
+    const [event] = await db.select().from(webhookEvents).where(eq(webhookEvents.id, id));
+    return event || undefined;
+  }
+
+  async getWebhookEvents(state?: WebhookEventState, limit = 100): Promise<WebhookEvent[]> {
+    const conditions = {
+      pending: and(eq(webhookEvents.processed, false), eq(webhookEvents.deadLettered, false)),
+      processed: eq(webhookEvents.processed, true),
+      dead_letter: eq(webhookEvents.deadLettered, true),
+    };
+
+    return await db.select().from(webhookEvents)
+      .where(state ? conditions[state] : undefined)
+      .orderBy(desc(webhookEvents.timestamp))
+      .limit(limit);
+  }
+
+  // Leases due events by pushing next_attempt_at forward, so concurrent workers never pick the same row
+  async claimDueWebhookEvents(limit: number, leaseMs: number): Promise<WebhookEvent[]> {
+    const now = new Date();
+    const due = db.select({ id: webhookEvents.id }).from(webhookEvents)
+      .where(and(
+        eq(webhookEvents.processed, false),
+        eq(webhookEvents.deadLettered, false),
+        or(isNull(webhookEvents.nextAttemptAt), lte(webhookEvents.nextAttemptAt, now))
+      ))
+      .orderBy(webhookEvents.timestamp)
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db.update(webhookEvents)
+      .set({ nextAttemptAt: new Date(now.getTime() + leaseMs) })
+      .where(inArray(webhookEvents.id, due))
+      .returning();
+  }
+
+  async updateWebhookEvent(id: string, updates: Partial<WebhookEvent>): Promise<WebhookEvent> {
+    const [event] = await db.update(webhookEvents).set(updates).where(eq(webhookEvents.id, id)).returning();
+    return event;
+  }
+
+  async getMessageTemplate(id: string): Promise<MessageTemplate | undefined> {
+    const [template] = await db.select().from(messageTemplates).where(eq(messageTemplates.id, id));
+    return template || undefined;
+  }
+
+  async getMessageTemplatesByUser(userId: string): Promise<MessageTemplate[]> {
+    return await db.select().from(messageTemplates)
+      .where(eq(messageTemplates.userId, userId))
+      .orderBy(messageTemplates.name);
+  }
+
+  async createMessageTemplate(insertTemplate: InsertMessageTemplate): Promise<MessageTemplate> {
+    const [template] = await db.insert(messageTemplates).values(insertTemplate).returning();
+    return template;
+  }
+
+  // Templates are unique per account, name and language; sync overwrites the Meta-controlled fields
+  async upsertMessageTemplate(insertTemplate: InsertMessageTemplate): Promise<MessageTemplate> {
+    const [template] = await db.insert(messageTemplates).values(insertTemplate)
+      .onConflictDoUpdate({
+        target: [messageTemplates.whatsappAccountId, messageTemplates.name, messageTemplates.language],
+        set: {
+          externalId: insertTemplate.externalId,
+          category: insertTemplate.category,
+          status: insertTemplate.status,
+          components: insertTemplate.components,
+          lastSyncedAt: insertTemplate.lastSyncedAt,
+        },
+      })
+      .returning();
+    return template;
+  }
+
+  async getCampaign(id: string): Promise<Campaign | undefined> {
+    const [campaign] = await db.select().from(campaigns).where(eq(campaigns.id, id));
+    return campaign || undefined;
+  }
+
+  async getCampaignsByUser(userId: string): Promise<Campaign[]> {
+    return await db.select().from(campaigns)
+      .where(eq(campaigns.userId, userId))
+      .orderBy(desc(campaigns.createdAt));
+  }
+
+  // Running campaigns plus scheduled ones whose start time has passed
+  async getDueCampaigns(): Promise<Campaign[]> {
+    return await db.select().from(campaigns)
+      .where(or(
+        eq(campaigns.status, "running"),
+        and(eq(campaigns.status, "scheduled"), or(isNull(campaigns.startAt), lte(campaigns.startAt, new Date())))
+      ))
+      .orderBy(campaigns.createdAt);
+  }
+
+  async createCampaign(insertCampaign: InsertCampaign): Promise<Campaign> {
+    const [campaign] = await db.insert(campaigns).values(insertCampaign).returning();
+    return campaign;
+  }
+
+  async updateCampaign(id: string, updates: Partial<Campaign>): Promise<Campaign> {
+    const [campaign] = await db.update(campaigns).set(updates).where(eq(campaigns.id, id)).returning();
+    return campaign;
+  }
+
+  async getSegmentContacts(userId: string, whatsappAccountId: string, segment: CampaignSegment): Promise<Contact[]> {
+    const conditions = [eq(contacts.userId, userId), eq(contacts.whatsappAccountId, whatsappAccountId)];
+
+    if (segment.tags?.length) {
+      conditions.push(sql`${contacts.tags} ?| array[${sql.join(segment.tags.map(tag => sql`${tag}`), sql`, `)}]::text[]`);
+    }
+    if (segment.lastActivityAfter) {
+      conditions.push(gte(contacts.lastMessageAt, new Date(segment.lastActivityAfter)));
+    }
+    if (segment.lastActivityBefore) {
+      conditions.push(lte(contacts.lastMessageAt, new Date(segment.lastActivityBefore)));
+    }
+
+    return await db.select().from(contacts).where(and(...conditions));
+  }
+
+  async createCampaignRecipients(recipients: InsertCampaignRecipient[]): Promise<void> {
+    if (recipients.length === 0) {
+      return;
+    }
+    await db.insert(campaignRecipients).values(recipients)
+      .onConflictDoNothing({ target: [campaignRecipients.campaignId, campaignRecipients.contactId] });
+  }
+
+  async getCampaignRecipients(campaignId: string): Promise<CampaignRecipient[]> {
+    return await db.select().from(campaignRecipients)
+      .where(eq(campaignRecipients.campaignId, campaignId))
+      .orderBy(campaignRecipients.createdAt);
+  }
+
+  async getPendingCampaignRecipients(campaignId: string, limit: number): Promise<CampaignRecipient[]> {
+    return await db.select().from(campaignRecipients)
+      .where(and(eq(campaignRecipients.campaignId, campaignId), eq(campaignRecipients.status, "pending")))
+      .orderBy(campaignRecipients.createdAt)
+      .limit(limit);
+  }
+
+  async updateCampaignRecipient(id: string, updates: Partial<CampaignRecipient>): Promise<CampaignRecipient> {
+    const [recipient] = await db.update(campaignRecipients).set(updates).where(eq(campaignRecipients.id, id)).returning();
+    return recipient;
+  }
+
+  // Delivery counts come from the statuses of the messages each recipient was sent;
+  // a reply is any inbound message in the same conversation after the campaign message
+  async getCampaignStats(campaignId: string): Promise<CampaignStats> {
+    const [stats] = await db.select({
+      recipients: count(),
+      pending: sql<number>`sum(case when ${campaignRecipients.status} = 'pending' then 1 else 0 end)`.mapWith(Number),
+      skipped: sql<number>`sum(case when ${campaignRecipients.status} = 'skipped' then 1 else 0 end)`.mapWith(Number),
+      sent: sql<number>`sum(case when ${messages.status} in ('sent', 'delivered', 'read') then 1 else 0 end)`.mapWith(Number),
+      delivered: sql<number>`sum(case when ${messages.status} in ('delivered', 'read') then 1 else 0 end)`.mapWith(Number),
+      read: sql<number>`sum(case when ${messages.status} = 'read' then 1 else 0 end)`.mapWith(Number),
+      failed: sql<number>`sum(case when ${campaignRecipients.status} = 'failed' or ${messages.status} = 'failed' then 1 else 0 end)`.mapWith(Number),
+      replied: sql<number>`sum(case when exists (
+        select 1 from ${messages} as replies
+        where replies.conversation_id = ${messages.conversationId}
+          and replies.direction = 'inbound'
+          and replies.timestamp > ${messages.timestamp}
+      ) then 1 else 0 end)`.mapWith(Number),
+    }).from(campaignRecipients)
+      .leftJoin(messages, eq(campaignRecipients.messageId, messages.id))
+      .where(eq(campaignRecipients.campaignId, campaignId));
+
+    return {
+      recipients: stats?.recipients || 0,
+      pending: stats?.pending || 0,
+      skipped: stats?.skipped || 0,
+      sent: stats?.sent || 0,
+      delivered: stats?.delivered || 0,
+      read: stats?.read || 0,
+      failed: stats?.failed || 0,
+      replied: stats?.replied || 0,
+    };
+  }
+
+  async getTeam(id: string): Promise<Team | undefined> {
+    const [team] = await db.select().from(teams).where(eq(teams.id, id));
+    return team || undefined;
+  }
+
+  async getTeamsByUser(userId: string): Promise<Team[]> {
+    return await db.select().from(teams).where(eq(teams.userId, userId)).orderBy(teams.name);
+  }
+
+  async getTeamsByAgent(agentId: string): Promise<Team[]> {
+    const rows = await db.select({ team: teams }).from(teams)
+      .innerJoin(teamMembers, eq(teamMembers.teamId, teams.id))
+      .where(eq(teamMembers.agentId, agentId))
+      .orderBy(teams.name);
+    return rows.map(row => row.team);
+  }
+
+  async createTeam(insertTeam: InsertTeam): Promise<Team> {
+    const [team] = await db.insert(teams).values(insertTeam).returning();
+    return team;
+  }
+
+  async updateTeam(id: string, updates: Partial<Team>): Promise<Team> {
+    const [team] = await db.update(teams).set(updates).where(eq(teams.id, id)).returning();
+    return team;
+  }
+
+  // Conversations routed to the team go back to the workspace-wide queue
+  async deleteTeam(id: string): Promise<void> {
+    await db.update(conversations).set({ teamId: null }).where(eq(conversations.teamId, id));
+    await db.delete(routingRules).where(eq(routingRules.teamId, id));
+    await db.delete(teamMembers).where(eq(teamMembers.teamId, id));
+    await db.delete(teams).where(eq(teams.id, id));
+  }
+
+  // In joining order, which is the order round-robin follows
+  async getTeamMembers(teamId: string): Promise<TeamMember[]> {
+    return await db.select().from(teamMembers)
+      .where(eq(teamMembers.teamId, teamId))
+      .orderBy(teamMembers.createdAt);
+  }
+
+  async addTeamMember(insertMember: InsertTeamMember): Promise<TeamMember> {
+    const [member] = await db.insert(teamMembers).values(insertMember)
+      .onConflictDoUpdate({ target: [teamMembers.teamId, teamMembers.agentId], set: { teamId: insertMember.teamId } })
+      .returning();
+    return member;
+  }
+
+  async removeTeamMember(teamId: string, agentId: string): Promise<boolean> {
+    const removed = await db.delete(teamMembers)
+      .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.agentId, agentId)))
+      .returning();
+    return removed.length > 0;
+  }
+
+  async getRoutingRule(id: string): Promise<RoutingRule | undefined> {
+    const [rule] = await db.select().from(routingRules).where(eq(routingRules.id, id));
+    return rule || undefined;
+  }
+
+  // In evaluation order: highest priority first, older rules winning ties
+  async getRoutingRulesByUser(userId: string): Promise<RoutingRule[]> {
+    return await db.select().from(routingRules)
+      .where(eq(routingRules.userId, userId))
+      .orderBy(desc(routingRules.priority), routingRules.createdAt);
+  }
+
+  async createRoutingRule(insertRule: InsertRoutingRule): Promise<RoutingRule> {
+    const [rule] = await db.insert(routingRules).values(insertRule).returning();
+    return rule;
+  }
+
+  async updateRoutingRule(id: string, updates: Partial<RoutingRule>): Promise<RoutingRule> {
+    const [rule] = await db.update(routingRules).set(updates).where(eq(routingRules.id, id)).returning();
+    return rule;
+  }
+
+  async deleteRoutingRule(id: string): Promise<void> {
+    await db.delete(routingRules).where(eq(routingRules.id, id));
+  }
+
+  // Handed-off conversations each agent currently owns; agents with none are included as 0
+  async countOpenConversationsByAgent(agentIds: string[]): Promise<Record<string, number>> {
+    const counts: Record<string, number> = Object.fromEntries(agentIds.map(id => [id, 0]));
+    if (agentIds.length === 0) {
+      return counts;
+    }
+
+    const rows = await db.select({ agentId: conversations.assignedAgentId, open: count() }).from(conversations)
+      .where(and(eq(conversations.status, "handoff"), inArray(conversations.assignedAgentId, agentIds)))
+      .groupBy(conversations.assignedAgentId);
+    for (const row of rows) {
+      counts[row.agentId!] = row.open;
+    }
+    return counts;
+  }
+
+  async getOpenConversationsByAgent(agentId: string): Promise<Conversation[]> {
+    return await db.select().from(conversations)
+      .where(and(eq(conversations.status, "handoff"), eq(conversations.assignedAgentId, agentId)))
+      .orderBy(conversations.handoffAt);
+  }
+
+  async getUnassignedTeamConversations(teamIds: string[]): Promise<Conversation[]> {
+    if (teamIds.length === 0) {
+      return [];
+    }
+    return await db.select().from(conversations)
+      .where(and(
+        eq(conversations.status, "handoff"),
+        inArray(conversations.teamId, teamIds),
+        isNull(conversations.assignedAgentId)
+      ))
+      .orderBy(conversations.handoffAt);
+  }
+
+  async createCsatSurvey(insertSurvey: InsertCsatSurvey): Promise<CsatSurvey> {
+    const [survey] = await db.insert(csatSurveys).values(insertSurvey).returning();
+    return survey;
+  }
+
+  async updateCsatSurvey(id: string, updates: Partial<CsatSurvey>): Promise<CsatSurvey> {
+    const [survey] = await db.update(csatSurveys).set(updates).where(eq(csatSurveys.id, id)).returning();
+    return survey;
+  }
+
+  // The latest unanswered survey of the conversation that can still be answered
+  async getOpenCsatSurvey(conversationId: string): Promise<CsatSurvey | undefined> {
+    const [survey] = await db.select().from(csatSurveys)
+      .where(and(
+        eq(csatSurveys.conversationId, conversationId),
+        isNull(csatSurveys.answeredAt),
+        gt(csatSurveys.expiresAt, new Date())
+      ))
+      .orderBy(desc(csatSurveys.sentAt))
+      .limit(1);
+    return survey || undefined;
+  }
+
+  // Quiet conversations where we had the last word (an agent's, for handoffs) and the
+  // contact has not been surveyed since they last wrote
+  async getConversationsIdleSince(whatsappAccountId: string, idleSince: Date): Promise<Conversation[]> {
+    return await db.select().from(conversations)
+      .where(and(
+        eq(conversations.whatsappAccountId, whatsappAccountId),
+        inArray(conversations.status, ["bot", "handoff"]),
+        lte(conversations.lastMessageAt, idleSince),
+        gt(conversations.windowExpiresAt, new Date()),
+        sql`exists (
+          select 1 from (
+            select ${messages.direction} as direction, ${messages.isFromBot} as is_from_bot from ${messages}
+            where ${messages.conversationId} = ${conversations.id} and ${messages.status} not in ('scheduled', 'failed')
+            order by ${messages.timestamp} desc
+            limit 1
+          ) as latest
+          where latest.direction = 'outbound' and (${conversations.status} = 'bot' or not latest.is_from_bot)
+        )`,
+        sql`not exists (
+          select 1 from ${csatSurveys}
+          where ${csatSurveys.conversationId} = ${conversations.id}
+            and ${csatSurveys.sentAt} > (
+              select max(inbound.timestamp) from ${messages} as inbound
+              where inbound.conversation_id = ${conversations.id} and inbound.direction = 'inbound'
+            )
+        )`
+      ));
+  }
+
+  // The conversation's latest bot reply that no survey has been sent about yet
+  async getUnratedBotInteraction(conversationId: string): Promise<BotInteraction | undefined> {
+    const [interaction] = await db.select({ interaction: botInteractions }).from(botInteractions)
+      .innerJoin(messages, eq(botInteractions.messageId, messages.id))
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        sql`not exists (select 1 from ${csatSurveys} where ${csatSurveys.botInteractionId} = ${botInteractions.id})`
+      ))
+      .orderBy(desc(botInteractions.timestamp))
+      .limit(1);
+    return interaction?.interaction;
+  }
+
+  async updateBotInteraction(id: string, updates: Partial<BotInteraction>): Promise<BotInteraction> {
+    const [interaction] = await db.update(botInteractions).set(updates).where(eq(botInteractions.id, id)).returning();
+    return interaction;
+  }
+
+  async getCsatSummaryByChatbot(chatbotId: string): Promise<CsatSummary> {
+    const [row] = await db.select(csatSummaryColumns()).from(csatSurveys).where(eq(csatSurveys.chatbotId, chatbotId));
+    return toCsatSummary(row);
+  }
+
+  async getCsatSummaryByAgent(userId: string): Promise<Array<CsatSummary & { agentId: string }>> {
+    const rows = await db.select({ agentId: csatSurveys.agentId, ...csatSummaryColumns() }).from(csatSurveys)
+      .where(and(eq(csatSurveys.userId, userId), sql`${csatSurveys.agentId} is not null`))
+      .groupBy(csatSurveys.agentId);
+    return rows.map(row => ({ agentId: row.agentId!, ...toCsatSummary(row) }));
+  }
+
+  // Recomputes the 15-minute rollups of [from, to), both on quarter-hour boundaries, from messages, bot interactions and handoffs
+  async rebuildAnalyticsRollups(from: Date, to: Date): Promise<number> {
+    const rows = new Map<string, InsertAnalyticsRollup>();
+    const rowFor = (bucket: number, userId: string, whatsappAccountId: string | null, chatbotId: string | null) => {
+      const key = [bucket, userId, whatsappAccountId, chatbotId].join("|");
+      if (!rows.has(key)) {
+        rows.set(key, { bucketStart: new Date(bucket * 1000), userId, whatsappAccountId, chatbotId });
+      }
+      return rows.get(key)!;
+    };
+
+    // Per message: volume, and for a first reply how long the customer had been waiting
+    const messageEvents = db.select({
+      bucket: quarterHourOf(messages.timestamp).as("bucket"),
+      userId: conversations.userId,
+      whatsappAccountId: conversations.whatsappAccountId,
+      chatbotId: lastBotBefore(messages.conversationId, messages.timestamp).as("chatbot_id"),
+      inbound: sql<number>`case when ${messages.direction} = 'inbound' then 1 else 0 end`.as("inbound"),
+      outbound: sql<number>`case when ${messages.direction} = 'outbound' and ${messages.status} not in ('scheduled', 'failed') then 1 else 0 end`.as("outbound"),
+      responseMs: sql<number | null>`case when ${messages.direction} = 'outbound' and ${messages.status} not in ('scheduled', 'failed')
+        then extract(epoch from ${messages.timestamp} - (
+          select min(waiting.timestamp) from ${messages} as waiting
+          where waiting.conversation_id = ${messages.conversationId}
+            and waiting.direction = 'inbound'
+            and waiting.timestamp <= ${messages.timestamp}
+            and waiting.timestamp > coalesce((
+              select max(replied.timestamp) from ${messages} as replied
+              where replied.conversation_id = ${messages.conversationId}
+                and replied.direction = 'outbound'
+                and replied.status not in ('scheduled', 'failed')
+                and replied.timestamp < ${messages.timestamp}
+            ), '-infinity')
+        )) * 1000 end`.as("response_ms"),
+    }).from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(and(gte(messages.timestamp, from), lt(messages.timestamp, to), isNotNull(conversations.userId)))
+      .as("message_events");
+
+    const volume = await db.select({
+      bucket: sql<number>`${messageEvents.bucket}`.mapWith(Number),
+      userId: messageEvents.userId,
+      whatsappAccountId: messageEvents.whatsappAccountId,
+      chatbotId: messageEvents.chatbotId,
+      inbound: sql<number>`sum(${messageEvents.inbound})`.mapWith(Number),
+      outbound: sql<number>`sum(${messageEvents.outbound})`.mapWith(Number),
+      firstResponses: sql<number>`count(${messageEvents.responseMs})`.mapWith(Number),
+      firstResponseMsTotal: sql<number>`coalesce(sum(${messageEvents.responseMs}), 0)`.mapWith(Number),
+    }).from(messageEvents)
+      .groupBy(messageEvents.bucket, messageEvents.userId, messageEvents.whatsappAccountId, messageEvents.chatbotId);
+    for (const event of volume) {
+      Object.assign(rowFor(event.bucket, event.userId!, event.whatsappAccountId, event.chatbotId), {
+        inboundMessages: event.inbound,
+        outboundMessages: event.outbound,
+        firstResponses: event.firstResponses,
+        firstResponseMsTotal: Math.round(event.firstResponseMsTotal),
+      });
+    }
+
+    const interactionBucket = quarterHourOf(botInteractions.timestamp);
+    const interactions = await db.select({
+      bucket: interactionBucket,
+      userId: conversations.userId,
+      whatsappAccountId: conversations.whatsappAccountId,
+      chatbotId: botInteractions.chatbotId,
+      total: count(),
+      fallbacks: sql<number>`sum(case when ${botInteractions.intent} = 'fallback' then 1 else 0 end)`.mapWith(Number),
+      escalations: sql<number>`sum(case when ${botInteractions.wasEscalated} then 1 else 0 end)`.mapWith(Number),
+      conversations: sql<number>`count(distinct ${messages.conversationId})`.mapWith(Number),
+      escalatedConversations: sql<number>`count(distinct case when ${botInteractions.wasEscalated} then ${messages.conversationId} end)`.mapWith(Number),
+    }).from(botInteractions)
+      .innerJoin(messages, eq(botInteractions.messageId, messages.id))
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(and(gte(botInteractions.timestamp, from), lt(botInteractions.timestamp, to), isNotNull(conversations.userId)))
+      .groupBy(interactionBucket, conversations.userId, conversations.whatsappAccountId, botInteractions.chatbotId);
+    for (const event of interactions) {
+      Object.assign(rowFor(event.bucket, event.userId!, event.whatsappAccountId, event.chatbotId), {
+        botInteractions: event.total,
+        fallbacks: event.fallbacks,
+        escalations: event.escalations,
+        botConversations: event.conversations,
+        containedConversations: event.conversations - event.escalatedConversations,
+      });
+    }
+
+    // Resolutions count towards the bot that handed the conversation off
+    const resolutionEvents = db.select({
+      bucket: quarterHourOf(conversations.resolvedAt).as("bucket"),
+      userId: conversations.userId,
+      whatsappAccountId: conversations.whatsappAccountId,
+      chatbotId: lastBotBefore(conversations.id, conversations.handoffAt).as("chatbot_id"),
+      resolutionMs: sql<number>`extract(epoch from ${conversations.resolvedAt} - ${conversations.handoffAt}) * 1000`.as("resolution_ms"),
+    }).from(conversations)
+      .where(and(
+        gte(conversations.resolvedAt, from),
+        lt(conversations.resolvedAt, to),
+        isNotNull(conversations.handoffAt),
+        isNotNull(conversations.userId)
+      ))
+      .as("resolution_events");
+
+    const resolutions = await db.select({
+      bucket: sql<number>`${resolutionEvents.bucket}`.mapWith(Number),
+      userId: resolutionEvents.userId,
+      whatsappAccountId: resolutionEvents.whatsappAccountId,
+      chatbotId: resolutionEvents.chatbotId,
+      total: count(),
+      resolutionMsTotal: sql<number>`sum(${resolutionEvents.resolutionMs})`.mapWith(Number),
+    }).from(resolutionEvents)
+      .groupBy(resolutionEvents.bucket, resolutionEvents.userId, resolutionEvents.whatsappAccountId, resolutionEvents.chatbotId);
+    for (const event of resolutions) {
+      Object.assign(rowFor(event.bucket, event.userId!, event.whatsappAccountId, event.chatbotId), {
+        resolutions: event.total,
+        resolutionMsTotal: Math.round(event.resolutionMsTotal),
+      });
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(analyticsRollups)
+        .where(and(gte(analyticsRollups.bucketStart, from), lt(analyticsRollups.bucketStart, to)));
+      if (rows.size > 0) {
+        await tx.insert(analyticsRollups).values(Array.from(rows.values()));
+      }
+    });
+    return rows.size;
+  }
+
+  async getLatestAnalyticsRollup(): Promise<Date | null> {
+    const [latest] = await db.select({ bucketStart: sql<Date | null>`max(${analyticsRollups.bucketStart})`.mapWith(analyticsRollups.bucketStart) })
+      .from(analyticsRollups);
+    return latest?.bucketStart ?? null;
+  }
+
+  async getEarliestMessageAt(): Promise<Date | null> {
+    const [earliest] = await db.select({ timestamp: sql<Date | null>`min(${messages.timestamp})`.mapWith(messages.timestamp) })
+      .from(messages);
+    return earliest?.timestamp ?? null;
+  }
+
+  // 15-minute totals of the user's rollups, summed per account or bot when split
+  async getAnalyticsRollups(filter: AnalyticsRollupFilter): Promise<Array<AnalyticsCounts & { bucketStart: Date; key: string | null }>> {
+    const key = filter.splitBy === "whatsappAccount"
+      ? analyticsRollups.whatsappAccountId
+      : filter.splitBy === "chatbot" ? analyticsRollups.chatbotId : null;
+    const total = (column: AnyColumn) => sql<number>`coalesce(sum(${column}), 0)`.mapWith(Number);
+
+    return await db.select({
+      bucketStart: analyticsRollups.bucketStart,
+      key: key ? sql<string | null>`${key}` : sql<string | null>`null`,
+      inboundMessages: total(analyticsRollups.inboundMessages),
+      outboundMessages: total(analyticsRollups.outboundMessages),
+      botInteractions: total(analyticsRollups.botInteractions),
+      fallbacks: total(analyticsRollups.fallbacks),
+      escalations: total(analyticsRollups.escalations),
+      botConversations: total(analyticsRollups.botConversations),
+      containedConversations: total(analyticsRollups.containedConversations),
+      firstResponses: total(analyticsRollups.firstResponses),
+      firstResponseMsTotal: total(analyticsRollups.firstResponseMsTotal),
+      resolutions: total(analyticsRollups.resolutions),
+      resolutionMsTotal: total(analyticsRollups.resolutionMsTotal),
+    }).from(analyticsRollups)
+      .where(and(
+        eq(analyticsRollups.userId, filter.userId),
+        gte(analyticsRollups.bucketStart, filter.from),
+        lt(analyticsRollups.bucketStart, filter.to),
+        filter.whatsappAccountId ? eq(analyticsRollups.whatsappAccountId, filter.whatsappAccountId) : undefined,
+        filter.chatbotId ? eq(analyticsRollups.chatbotId, filter.chatbotId) : undefined
+      ))
+      .groupBy(...(key ? [analyticsRollups.bucketStart, key] : [analyticsRollups.bucketStart]))
+      .orderBy(analyticsRollups.bucketStart);
+  }
+
   async getUserStats(userId: string): Promise<{
     totalContacts: number;
     totalMessages: number;
@@ -299,4 +1156,56 @@ export class DatabaseStorage implements IStorage {
   }
 }
 
+// Start of the quarter hour an event falls in, as epoch seconds
+function quarterHourOf(column: AnyColumn) {
+  return sql<number>`floor(extract(epoch from ${column}) / 900) * 900`.mapWith(Number);
+}
+
+// Drizzle leaves columns unqualified in single-table selects, where a correlated subquery
+// would resolve them against its own tables
+function qualified(column: AnyColumn): SQL {
+  return sql`${sql.identifier(getTableName(column.table))}.${sql.identifier(column.name)}`;
+}
+
+// The bot that last answered a message in the conversation at or before the given time
+function lastBotBefore(conversationId: AnyColumn, at: AnyColumn): SQL<string | null> {
+  return sql<string | null>`(
+    select answered.chatbot_id from ${botInteractions} as answered
+    inner join ${messages} as asked on asked.id = answered.message_id
+    where asked.conversation_id = ${qualified(conversationId)} and asked.timestamp <= ${qualified(at)}
+    order by asked.timestamp desc
+    limit 1
+  )`;
+}
+
+function csatSummaryColumns() {
+  const scored = (score: number) =>
+    sql<number>`sum(case when ${csatSurveys.score} = ${score} then 1 else 0 end)`.mapWith(Number);
+  return {
+    sent: count(),
+    answered: count(csatSurveys.score),
+    average: sql<number | null>`avg(${csatSurveys.score})`.mapWith(Number),
+    score1: scored(1),
+    score2: scored(2),
+    score3: scored(3),
+    score4: scored(4),
+    score5: scored(5),
+  };
+}
+
+function toCsatSummary(row: { sent: number; answered: number; average: number | null; score1: number; score2: number; score3: number; score4: number; score5: number } | undefined): CsatSummary {
+  return {
+    sent: row?.sent || 0,
+    answered: row?.answered || 0,
+    average: row?.average ?? null,
+    distribution: {
+      "1": row?.score1 || 0,
+      "2": row?.score2 || 0,
+      "3": row?.score3 || 0,
+      "4": row?.score4 || 0,
+      "5": row?.score5 || 0,
+    },
+  };
+}
+
 export const storage = new DatabaseStorage();
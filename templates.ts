@@ -0,0 +1,180 @@
+import { storage } from "./storage";
+import { whatsappServices, remoteTemplateSchema } from "./whatsapp";
+import { valueAtPath } from "./placeholders";
+import type { Contact, MessageTemplate, TemplateComponent, TemplatePayload, WhatsappAccount } from "@shared/schema";
+
+const SYNC_INTERVAL_MS = 60 * 60 * 1000;
+
+export class TemplateParameterError extends Error {}
+
+export interface TemplateParameters {
+  header?: string[];
+  body?: string[];
+}
+
+// Distinct {{n}} placeholder numbers in a component's text, in ascending order
+export function extractPlaceholders(text: string | undefined): number[] {
+  const numbers = new Set<number>();
+  for (const match of Array.from((text || "").matchAll(/\{\{\s*(\d+)\s*\}\}/g))) {
+    numbers.add(parseInt(match[1], 10));
+  }
+  return Array.from(numbers).sort((a, b) => a - b);
+}
+
+// Meta reports statuses such as IN_APPEAL or PENDING_DELETION that we fold into our own set
+function normalizeTemplateStatus(status: string): MessageTemplate["status"] {
+  const normalized = status.toLowerCase();
+  if (normalized === "approved" || normalized === "pending" || normalized === "rejected" || normalized === "paused") {
+    return normalized;
+  }
+  return normalized === "in_appeal" ? "pending" : "disabled";
+}
+
+// Placeholders must be numbered 1..n without gaps, as Meta requires
+export function validateTemplateComponents(components: TemplateComponent[]): string | null {
+  if (!components.some(component => component.type === "BODY" && component.text)) {
+    return "A template needs a BODY component with text";
+  }
+
+  for (const component of components) {
+    const placeholders = extractPlaceholders(component.text);
+    if (placeholders.some((number, index) => number !== index + 1)) {
+      return `${component.type} placeholders must be numbered {{1}}..{{${placeholders.length}}} without gaps`;
+    }
+  }
+  return null;
+}
+
+// Values may reference contact fields, e.g. "{{contact.name}}" or "{{contact.metadata.city}}"
+export function resolveTemplateValue(value: string, contact: Contact): string {
+  return value.replace(/\{\{\s*contact\.([\w.]+)\s*\}\}/g, (_match, fieldPath: string) => {
+    const resolved = valueAtPath(contact, fieldPath);
+    return resolved === undefined || resolved === null ? "" : String(resolved);
+  });
+}
+
+function fillPlaceholders(text: string, values: string[]): string {
+  return text.replace(/\{\{\s*(\d+)\s*\}\}/g, (_match, number: string) => values[parseInt(number, 10) - 1] ?? "");
+}
+
+// Builds the Cloud API payload plus a rendered preview of the body for the CRM
+export function buildTemplateMessage(
+  template: MessageTemplate,
+  contact: Contact,
+  parameters: TemplateParameters = {}
+): { payload: TemplatePayload; renderedText: string } {
+  const components = template.components;
+  const payloadComponents: NonNullable<TemplatePayload["components"]> = [];
+  let renderedText = "";
+
+  for (const component of components) {
+    if (component.type !== "HEADER" && component.type !== "BODY") {
+      continue;
+    }
+
+    const key = component.type === "HEADER" ? "header" : "body";
+    const values = (parameters[key] || []).map(value => resolveTemplateValue(value, contact));
+
+    // Media headers take a single link parameter instead of text placeholders
+    if (component.type === "HEADER" && component.format && component.format !== "TEXT") {
+      if (!values[0]) {
+        throw new TemplateParameterError(`Template ${template.name} needs a ${component.format.toLowerCase()} link for its header`);
+      }
+      const link = { link: values[0] };
+      payloadComponents.push({
+        type: "header",
+        parameters: [
+          component.format === "IMAGE" ? { type: "image", image: link }
+            : component.format === "VIDEO" ? { type: "video", video: link }
+            : { type: "document", document: link },
+        ],
+      });
+      continue;
+    }
+
+    const expected = extractPlaceholders(component.text).length;
+    if (values.length !== expected) {
+      throw new TemplateParameterError(`Template ${template.name} expects ${expected} ${key} parameter(s), got ${values.length}`);
+    }
+
+    if (expected > 0) {
+      payloadComponents.push({
+        type: key,
+        parameters: values.map(text => ({ type: "text" as const, text })),
+      });
+    }
+
+    if (component.type === "BODY") {
+      renderedText = fillPlaceholders(component.text || "", values);
+    }
+  }
+
+  return {
+    payload: {
+      name: template.name,
+      language: { code: template.language },
+      components: payloadComponents.length > 0 ? payloadComponents : undefined,
+    },
+    renderedText,
+  };
+}
+
+// Periodically mirrors the templates (and their approval status) from each account's WABA
+export class TemplateSync {
+  private timer: NodeJS.Timeout | null = null;
+
+  start(): void {
+    this.timer = setInterval(() => {
+      this.syncAll().catch(error => console.error("Template sync error:", error));
+    }, SYNC_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async syncAll(): Promise<void> {
+    const accounts = await storage.getActiveWhatsappAccounts();
+    for (const account of accounts) {
+      try {
+        await this.syncAccount(account);
+      } catch (error) {
+        console.error(`Template sync failed for account ${account.id}:`, error);
+      }
+    }
+  }
+
+  async syncAccount(account: WhatsappAccount): Promise<MessageTemplate[]> {
+    const remoteTemplates = await whatsappServices.forAccount(account).listTemplates(account.accountId);
+    const synced: MessageTemplate[] = [];
+
+    for (const entry of remoteTemplates) {
+      // Categories and components we can't represent would break sending, so such templates are left out
+      const parsed = remoteTemplateSchema.safeParse(entry);
+      if (!parsed.success) {
+        console.error(`Skipping template from account ${account.id} that failed validation:`, parsed.error.issues);
+        continue;
+      }
+      const remote = parsed.data;
+
+      synced.push(await storage.upsertMessageTemplate({
+        userId: account.userId,
+        whatsappAccountId: account.id,
+        externalId: remote.id,
+        name: remote.name,
+        language: remote.language,
+        category: remote.category,
+        status: normalizeTemplateStatus(remote.status),
+        components: remote.components,
+        lastSyncedAt: new Date(),
+      }));
+    }
+
+    return synced;
+  }
+}
+
+export const templateSync = new TemplateSync();
@@ -0,0 +1,15 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Unit tests for the server modules; kept apart from vite.config.ts, which builds the client
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(__dirname, "shared"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["*.test.ts"],
+  },
+});
@@ -0,0 +1,267 @@
+import { storage } from "./storage";
+import { whatsappServices, chatbotProcessor, type IncomingMessageResult, type WhatsAppWebhookPayload } from "./whatsapp";
+import { handoffQueue } from "./handoff";
+import { csatSurveys } from "./csat";
+import { selectChatbot } from "./botSelection";
+import { businessStatus, formatOpening } from "./businessHours";
+import { interpolate } from "./flows";
+import { DEFAULT_AWAY_MESSAGES, DEFAULT_LANGUAGE, isSupportedLanguage } from "./language";
+import type { Contact, Conversation, WebhookEvent, WhatsappAccount } from "@shared/schema";
+
+export type BroadcastFn = (userId: string, message: unknown) => void;
+
+const POLL_INTERVAL_MS = 5000;
+const BATCH_SIZE = 20;
+const LEASE_MS = 5 * 60 * 1000;
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "8", 10);
+
+// Far enough ahead to stand for "already told" when no opening is in sight
+const NO_OPENING_NOTICE_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Tells a customer writing outside business hours when to expect a reply, once per closed period
+async function sendAwayMessage(
+  account: WhatsappAccount,
+  conversation: Conversation,
+  contact: Contact,
+  broadcast: BroadcastFn
+): Promise<void> {
+  const now = new Date();
+  const status = businessStatus(account, now);
+  if (status.open) {
+    return;
+  }
+
+  const current = await storage.getConversation(conversation.id);
+  if (!current || (current.awayNoticeUntil && current.awayNoticeUntil > now)) {
+    return;
+  }
+  await storage.updateConversation(current.id, {
+    awayNoticeUntil: status.opensAt || new Date(now.getTime() + NO_OPENING_NOTICE_MS),
+  });
+
+  const language = contact.preferredLanguage || contact.language;
+  const base = language?.split("-")[0] || DEFAULT_LANGUAGE;
+  const template = account.awayMessage || DEFAULT_AWAY_MESSAGES[isSupportedLanguage(base) ? base : DEFAULT_LANGUAGE];
+  const message = await whatsappServices.forAccount(account).processOutgoingMessage(
+    current.id,
+    contact.id,
+    interpolate(template, { opensAt: formatOpening(status.opensAt, account, language) })
+  );
+  const automated = await storage.updateMessage(message.id, { isFromBot: true });
+
+  if (account.userId) {
+    broadcast(account.userId, { type: "new_message", message: automated });
+  }
+}
+
+// Everything a stored customer message sets off: the live inbox update, survey answers, the bot or the agents
+async function respondToIncomingMessage(
+  account: WhatsappAccount,
+  result: IncomingMessageResult,
+  broadcast: BroadcastFn
+): Promise<void> {
+  if (!account.userId) {
+    return;
+  }
+
+  // Broadcast to user's WebSocket connection
+  broadcast(account.userId, {
+    type: "new_message",
+    message: result.message,
+    contact: result.contact,
+    conversation: result.conversation,
+  });
+
+  // A survey answer is for us, not for the bot or the agents
+  if (await csatSurveys.recordAnswer(result.conversation, result.contact, result.message)) {
+    return;
+  }
+
+  // Check for bot response
+  const userBots = await storage.getChatbotsByUser(account.userId);
+  const activeBot = selectChatbot(userBots, account.id, result.contact).chatbot;
+  let botAnswered = false;
+
+  if (result.conversation.status === "resolved") {
+    // A customer writing again after an agent closed the conversation goes back to the agents
+    await handoffQueue.enqueue(result.conversation, "reopened", {
+      contact: result.contact,
+      text: result.message.content,
+    });
+  } else if (activeBot) {
+    botAnswered = await chatbotProcessor.processBotResponse(
+      activeBot.id,
+      result.contact,
+      result.message,
+      result.conversation
+    );
+  } else if (result.conversation.status === "bot") {
+    // Without a bot every new conversation is for the agents to answer
+    await handoffQueue.enqueue(result.conversation, "no_bot", {
+      contact: result.contact,
+      text: result.message.content,
+    });
+  }
+
+  // Bots keep answering after hours; only messages waiting for a human get the away notice
+  if (!botAnswered) {
+    await sendAwayMessage(account, result.conversation, result.contact, broadcast);
+  }
+}
+
+// Only the envelope is checked; messages and statuses are read as the Cloud API documents them
+function isWebhookPayload(payload: WebhookEvent["payload"]): payload is WhatsAppWebhookPayload {
+  if (typeof payload !== "object" || payload === null || Array.isArray(payload)) {
+    return false;
+  }
+  const { entry } = payload as { entry?: unknown };
+  return entry === undefined || Array.isArray(entry);
+}
+
+// Apply a stored webhook payload: inbound messages, bot replies and delivery statuses
+export async function processWebhookPayload(payload: WebhookEvent["payload"], broadcast: BroadcastFn): Promise<void> {
+  if (!isWebhookPayload(payload)) {
+    return;
+  }
+
+  for (const item of payload.entry || []) {
+    for (const change of item.changes || []) {
+      if (change.field === "messages" && change.value?.metadata) {
+        // Route to the account that owns the business number the customer wrote to
+        const account = await storage.getWhatsappAccountByPhoneNumberId(change.value.metadata.phone_number_id);
+        if (!account || !account.isActive || !account.userId) {
+          continue;
+        }
+
+        const accountService = whatsappServices.forAccount(account);
+        const messages = change.value.messages || [];
+
+        for (const message of messages) {
+          // Process incoming message
+          const result = await accountService.processIncomingMessage(account.id, message);
+          if (result.duplicate) {
+            continue;
+          }
+
+          await respondToIncomingMessage(account, result, broadcast);
+          // Only now is the message done; a failure before this resumes it when the event is retried
+          await storage.updateMessage(result.message.id, { processedAt: new Date() });
+        }
+
+        // Delivery receipts for messages we sent
+        const statuses = change.value.statuses || [];
+
+        for (const statusUpdate of statuses) {
+          const result = await accountService.processStatusUpdate(statusUpdate);
+
+          if (result?.conversation.userId) {
+            broadcast(result.conversation.userId, {
+              type: "message_status",
+              messageId: result.message.id,
+              conversationId: result.conversation.id,
+              status: result.message.status,
+              errorCode: result.message.errorCode,
+              errorTitle: result.message.errorTitle,
+            });
+          }
+        }
+      }
+    }
+  }
+}
+
+// Background worker draining the webhook_events inbox with exponential backoff and a dead-letter state
+export class WebhookWorker {
+  private broadcast: BroadcastFn | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  start(broadcast: BroadcastFn): void {
+    this.broadcast = broadcast;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.broadcast = null;
+  }
+
+  // Process newly stored events right away instead of waiting for the next poll
+  wake(): void {
+    if (this.broadcast && !this.running) {
+      this.schedule(0);
+    }
+  }
+
+  async replay(id: string): Promise<WebhookEvent> {
+    const reset = await storage.updateWebhookEvent(id, {
+      processed: false,
+      deadLettered: false,
+      attempts: 0,
+      nextAttemptAt: null,
+      error: null,
+    });
+    this.wake();
+    return reset;
+  }
+
+  private schedule(delay: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private async tick(): Promise<void> {
+    this.timer = null;
+    this.running = true;
+
+    try {
+      const events = await storage.claimDueWebhookEvents(BATCH_SIZE, LEASE_MS);
+      events.sort((a, b) => (a.timestamp?.getTime() || 0) - (b.timestamp?.getTime() || 0));
+
+      for (const event of events) {
+        await this.processEvent(event);
+      }
+    } catch (error) {
+      console.error("Webhook worker error:", error);
+    } finally {
+      this.running = false;
+      if (this.broadcast) {
+        this.schedule(POLL_INTERVAL_MS);
+      }
+    }
+  }
+
+  private async processEvent(event: WebhookEvent): Promise<void> {
+    try {
+      await processWebhookPayload(event.payload, this.broadcast || (() => {}));
+      await storage.updateWebhookEvent(event.id, {
+        processed: true,
+        attempts: (event.attempts || 0) + 1,
+        nextAttemptAt: null,
+        error: null,
+      });
+    } catch (error) {
+      const attempts = (event.attempts || 0) + 1;
+      const message = error instanceof Error ? error.message : "Unknown error";
+      const deadLettered = attempts >= MAX_ATTEMPTS;
+      const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+
+      console.error(`Webhook event ${event.id} failed (attempt ${attempts}/${MAX_ATTEMPTS}):`, message);
+      await storage.updateWebhookEvent(event.id, {
+        attempts,
+        deadLettered,
+        nextAttemptAt: deadLettered ? null : new Date(Date.now() + delay),
+        error: message,
+      });
+    }
+  }
+}
+
+export const webhookWorker = new WebhookWorker();
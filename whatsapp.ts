@@ -1,8 +1,30 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { z } from "zod";
 import { storage } from "./storage";
-import type { WebhookEvent, Contact, Message, Conversation } from "@shared/schema";
+import { blobStore, matchesChecksum, mediaRoute } from "./media";
+import type { InteractiveContent } from "./interactive";
+import {
+  resolveFlow,
+  runFlow,
+  localizeFlow,
+  handoffMessageFor,
+  escalationKeywordsFor,
+  interpolate,
+  DEFAULT_SESSION_TIMEOUT_MINUTES,
+  type BotReply,
+  type FlowDefinition,
+} from "./flows";
+import { detectLanguage } from "./language";
+import { findKnowledgeAnswer } from "./knowledge";
+import { llmResponder } from "./llm";
+import { handoffQueue } from "./handoff";
+import { businessStatus, formatOpening } from "./businessHours";
+import { bestIntent, DEFAULT_INTENT_THRESHOLD, type IntentMatch } from "./intents";
+import { templateComponentSchema, type WebhookEvent, type Contact, type Message, type Conversation, type WhatsappAccount, type TemplateComponent, type TemplatePayload } from "@shared/schema";
 
 // WhatsApp Business API configuration
-const WHATSAPP_API_URL = "https://graph.facebook.com/v18.0";
+// Overridable so tests and local development can point at a stub Graph API
+const WHATSAPP_API_URL = process.env.WHATSAPP_API_URL || "https://graph.facebook.com/v18.0";
 const ACCESS_TOKEN = process.env.ACCESS_TOKEN || process.env.WHATSAPP_TOKEN || null;
 const PHONE_NUMBER_ID = process.env.PHONE_NUMBER_ID || null;
 const VERIFY_TOKEN = process.env.VERIFY_TOKEN || "mi_token_de_verificacion";
@@ -10,24 +32,147 @@ const VERIFY_TOKEN = process.env.VERIFY_TOKEN || "mi_token_de_verificacion";
 export interface WhatsAppMessage {
   messaging_product: "whatsapp";
   to: string;
-  type: "text" | "image" | "audio" | "video" | "document";
+  type: "text" | "image" | "audio" | "video" | "document" | "interactive" | "template";
   text?: { body: string };
-  image?: { link: string; caption?: string };
-  audio?: { link: string };
-  video?: { link: string; caption?: string };
-  document?: { link: string; filename?: string };
+  // Media is referenced either by an uploaded media id or by a public link
+  image?: { id?: string; link?: string; caption?: string };
+  audio?: { id?: string; link?: string };
+  video?: { id?: string; link?: string; caption?: string };
+  document?: { id?: string; link?: string; caption?: string; filename?: string };
+  interactive?: InteractiveContent;
+  template?: TemplatePayload;
+}
+
+// Template as returned by GET /{waba-id}/message_templates; Meta sends categories in upper case
+export const remoteTemplateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  language: z.string(),
+  category: z.string().transform(category => category.toLowerCase()).pipe(z.enum(["marketing", "utility", "authentication"])),
+  status: z.string(),
+  components: z.array(templateComponentSchema),
+});
+
+export type RemoteTemplate = z.infer<typeof remoteTemplateSchema>;
+
+export interface OutgoingMedia {
+  mediaId?: string;
+  mediaUrl?: string;
+  mimeType?: string;
+  fileName?: string;
+  // Set when the file was copied into the blob store; the message then links to /api/media/:id
+  storageKey?: string;
+}
+
+export interface OutgoingOptions {
+  media?: OutgoingMedia;
+  interactive?: InteractiveContent;
+  template?: { templateId: string; payload: TemplatePayload };
+  sendAt?: Date;
 }
 
 export interface IncomingWhatsAppMessage {
   from: string;
   id: string;
   timestamp: string;
-  type: "text" | "image" | "audio" | "video" | "document";
+  type: "text" | "image" | "audio" | "video" | "document" | "interactive" | "button";
   text?: { body: string };
   image?: { id: string; mime_type: string; sha256: string };
   audio?: { id: string; mime_type: string; sha256: string };
   video?: { id: string; mime_type: string; sha256: string };
   document?: { id: string; filename: string; mime_type: string; sha256: string };
+  // Taps on reply buttons and list rows we sent
+  interactive?:
+    | { type: "button_reply"; button_reply: { id: string; title: string } }
+    | { type: "list_reply"; list_reply: { id: string; title: string; description?: string } };
+  // Taps on template quick-reply buttons
+  button?: { payload: string; text: string };
+}
+
+export interface IncomingMessageResult {
+  contact: Contact;
+  message: Message;
+  conversation: Conversation;
+  duplicate: boolean;
+}
+
+// Body of a Cloud API webhook POST; only "messages" changes are acted on
+export interface WhatsAppWebhookPayload {
+  object?: string;
+  entry?: {
+    id?: string;
+    changes?: {
+      field: string;
+      value: {
+        metadata: { phone_number_id: string; display_phone_number?: string };
+        messages?: IncomingWhatsAppMessage[];
+        statuses?: WhatsAppStatusUpdate[];
+      };
+    }[];
+  }[];
+}
+
+export interface SendMessageResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  errorCode?: string;
+  // Rate limits, server errors and network failures are worth another attempt
+  retryable?: boolean;
+}
+
+// Cloud API error codes that signal throttling or a transient failure on Meta's side
+const RETRYABLE_ERROR_CODES = new Set([1, 2, 4, 80007, 130429, 131000, 131016, 131048, 131056]);
+
+export interface WhatsAppStatusUpdate {
+  id: string;
+  status: "sent" | "delivered" | "read" | "failed";
+  timestamp: string;
+  recipient_id: string;
+  errors?: { code: number; title: string; message?: string }[];
+}
+
+// Delivery statuses only ever move forward; "failed" can only replace a status the recipient never acknowledged
+const STATUS_RANK: Record<Message["status"] & string, number> = {
+  scheduled: 0,
+  pending: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  failed: 2,
+};
+
+function isStatusAdvance(current: Message["status"], next: Message["status"]): boolean {
+  if (!next || current === "failed") {
+    return false;
+  }
+  return STATUS_RANK[next] > STATUS_RANK[current || "sent"];
+}
+
+// Free-form messages are only allowed within 24 hours of the customer's last message
+const CUSTOMER_SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Customers can unsubscribe from (and rejoin) broadcast campaigns by replying with a keyword
+const OPT_OUT_KEYWORDS = new Set(["stop", "baja", "unsubscribe", "cancelar"]);
+const OPT_IN_KEYWORDS = new Set(["start", "alta", "subscribe"]);
+
+export class CustomerServiceWindowError extends Error {
+  code = "CUSTOMER_SERVICE_WINDOW_CLOSED";
+
+  constructor() {
+    super("The 24-hour customer service window is closed; send an approved template to restart the conversation");
+  }
+}
+
+export function getWindowRemainingMs(conversation: Conversation, now = new Date()): number {
+  if (!conversation.windowExpiresAt) {
+    return 0;
+  }
+  return Math.max(conversation.windowExpiresAt.getTime() - now.getTime(), 0);
+}
+
+export function withWindowInfo(conversation: Conversation): Conversation & { windowRemainingSeconds: number } {
+  return { ...conversation, windowRemainingSeconds: Math.floor(getWindowRemainingMs(conversation) / 1000) };
 }
 
 export class WhatsAppService {
@@ -47,9 +192,13 @@ export class WhatsAppService {
     return this.validateCredentials();
   }
 
-  async sendMessage(message: WhatsAppMessage): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  getPhoneNumberId(): string | null {
+    return this.phoneNumberId;
+  }
+
+  async sendMessage(message: WhatsAppMessage): Promise<SendMessageResult> {
     if (!this.validateCredentials()) {
-      return { success: false, error: "WhatsApp credentials not configured" };
+      return { success: false, error: "WhatsApp credentials not configured", retryable: false };
     }
 
     try {
@@ -65,18 +214,24 @@ export class WhatsAppService {
       const data = await response.json();
 
       if (!response.ok) {
-        return { success: false, error: data.error?.message || "Failed to send message" };
+        const code = data.error?.code;
+        return {
+          success: false,
+          error: data.error?.message || "Failed to send message",
+          errorCode: code !== undefined ? String(code) : String(response.status),
+          retryable: response.status === 429 || response.status >= 500 || RETRYABLE_ERROR_CODES.has(code),
+        };
       }
 
       return { success: true, messageId: data.messages?.[0]?.id };
     } catch (error) {
-      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error", retryable: true };
     }
   }
 
-  async sendTextMessage(to: string, text: string): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  async sendTextMessage(to: string, text: string): Promise<SendMessageResult> {
     if (!this.validateCredentials()) {
-      return { success: false, error: "WhatsApp credentials not configured" };
+      return { success: false, error: "WhatsApp credentials not configured", retryable: false };
     }
 
     return this.sendMessage({
@@ -87,6 +242,37 @@ export class WhatsAppService {
     });
   }
 
+  async uploadMedia(file: Buffer, mimeType: string, fileName: string): Promise<{ success: boolean; mediaId?: string; error?: string }> {
+    if (!this.validateCredentials()) {
+      return { success: false, error: "WhatsApp credentials not configured" };
+    }
+
+    try {
+      const form = new FormData();
+      form.append("messaging_product", "whatsapp");
+      form.append("type", mimeType);
+      form.append("file", new Blob([file], { type: mimeType }), fileName);
+
+      const response = await fetch(`${WHATSAPP_API_URL}/${this.phoneNumberId}/media`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${this.accessToken}`,
+        },
+        body: form,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { success: false, error: data.error?.message || "Failed to upload media" };
+      }
+
+      return { success: true, mediaId: data.id };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
   async getMediaUrl(mediaId: string): Promise<string | null> {
     try {
       const response = await fetch(`${WHATSAPP_API_URL}/${mediaId}`, {
@@ -102,6 +288,94 @@ export class WhatsAppService {
     }
   }
 
+  // Templates live on the WhatsApp Business Account (WABA), not on the phone number
+  // Raw entries; callers check them against remoteTemplateSchema
+  async listTemplates(businessAccountId: string): Promise<unknown[]> {
+    if (!this.accessToken) {
+      throw new Error("WhatsApp credentials not configured");
+    }
+
+    const templates: unknown[] = [];
+    let url: string | null = `${WHATSAPP_API_URL}/${businessAccountId}/message_templates?limit=100`;
+
+    while (url) {
+      const response: Response = await fetch(url, {
+        headers: {
+          "Authorization": `Bearer ${this.accessToken}`,
+        },
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || "Failed to list templates");
+      }
+
+      templates.push(...(data.data || []));
+      url = data.paging?.next || null;
+    }
+
+    return templates;
+  }
+
+  async createTemplate(
+    businessAccountId: string,
+    template: { name: string; language: string; category: string; components: TemplateComponent[] }
+  ): Promise<{ success: boolean; id?: string; status?: string; error?: string }> {
+    if (!this.accessToken) {
+      return { success: false, error: "WhatsApp credentials not configured" };
+    }
+
+    try {
+      const response = await fetch(`${WHATSAPP_API_URL}/${businessAccountId}/message_templates`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${this.accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ...template, category: template.category.toUpperCase() }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { success: false, error: data.error?.error_user_msg || data.error?.message || "Failed to create template" };
+      }
+
+      return { success: true, id: data.id, status: data.status };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
+  // Graph media URLs expire within minutes and need the bearer token, so inbound files are fetched immediately
+  async downloadMedia(mediaId: string): Promise<{ data: Buffer; mimeType: string }> {
+    const metaResponse = await fetch(`${WHATSAPP_API_URL}/${mediaId}`, {
+      headers: {
+        "Authorization": `Bearer ${this.accessToken}`,
+      },
+    });
+    const meta = await metaResponse.json();
+
+    if (!metaResponse.ok || !meta.url) {
+      throw new Error(`Failed to resolve media ${mediaId}: ${meta.error?.message || metaResponse.status}`);
+    }
+
+    const fileResponse = await fetch(meta.url, {
+      headers: {
+        "Authorization": `Bearer ${this.accessToken}`,
+      },
+    });
+
+    if (!fileResponse.ok) {
+      throw new Error(`Failed to download media ${mediaId}: ${fileResponse.status}`);
+    }
+
+    return {
+      data: Buffer.from(await fileResponse.arrayBuffer()),
+      mimeType: meta.mime_type || fileResponse.headers.get("content-type") || "application/octet-stream",
+    };
+  }
+
   static verifyWebhook(verifyToken: string, mode: string, challenge: string): string | null {
     if (mode === "subscribe" && verifyToken === VERIFY_TOKEN) {
       return challenge;
@@ -109,11 +383,30 @@ export class WhatsAppService {
     return null;
   }
 
+  // Meta signs every webhook POST with the app secret: X-Hub-Signature-256 = "sha256=" + HMAC-SHA256(raw body)
+  static verifySignature(rawBody: Buffer, signatureHeader: string | undefined, appSecret: string): boolean {
+    if (!signatureHeader || !signatureHeader.startsWith("sha256=")) {
+      return false;
+    }
+
+    const expected = createHmac("sha256", appSecret).update(rawBody).digest();
+    const received = Buffer.from(signatureHeader.slice("sha256=".length), "hex");
+
+    return received.length === expected.length && timingSafeEqual(received, expected);
+  }
+
   async processIncomingMessage(
     whatsappAccountId: string,
     incomingMessage: IncomingWhatsAppMessage
-  ): Promise<{ contact: Contact; message: Message; conversation: Conversation }> {
+  ): Promise<IncomingMessageResult> {
     const phone = incomingMessage.from;
+
+    // Meta redelivers webhooks; a message we already handled must have no further side effects,
+    // while one left behind by a failed attempt is picked up again after its insert
+    const existing = await storage.getMessageByWhatsappId(incomingMessage.id);
+    if (existing) {
+      return existing.processedAt ? this.duplicateResult(existing) : this.completeIncomingMessage(existing);
+    }
     
     // Find or create contact
     const whatsappAccount = await storage.getWhatsappAccount(whatsappAccountId);
@@ -129,30 +422,23 @@ export class WhatsAppService {
         name: phone, // Use phone as name initially
         phone,
       });
-    } else {
-      // Update last message time  
-      contact = await storage.updateContact(contact.id, {});
     }
 
-    // Find or create conversation
-    let conversation = await storage.getConversationByContact(contact.id);
+    // Find or create the conversation on this business number
+    let conversation = await storage.getConversationByContactAndAccount(contact.id, whatsappAccountId);
     if (!conversation) {
       conversation = await storage.createConversation({
         userId: whatsappAccount.userId,
         contactId: contact.id,
         whatsappAccountId,
-        unreadCount: 1,
-      });
-    } else {
-      // Update conversation
-      conversation = await storage.updateConversation(conversation.id, {
-        unreadCount: (conversation.unreadCount || 0) + 1,
+        unreadCount: 0,
       });
     }
 
     // Create message
     let content = "";
-    let mediaUrl: string | undefined;
+    let media: { mediaId: string; mimeType: string; storageKey: string; fileName?: string } | undefined;
+    let replyId: string | undefined;
 
     switch (incomingMessage.type) {
       case "text":
@@ -162,60 +448,197 @@ export class WhatsAppService {
       case "audio":
       case "video":
       case "document":
-        const mediaId = (incomingMessage as any)[incomingMessage.type]?.id;
-        if (mediaId) {
-          mediaUrl = await this.getMediaUrl(mediaId);
+        const attachment = incomingMessage[incomingMessage.type];
+        if (attachment?.id) {
+          const downloaded = await this.downloadMedia(attachment.id);
+          if (attachment.sha256 && !matchesChecksum(downloaded.data, attachment.sha256)) {
+            throw new Error(`Checksum mismatch for media ${attachment.id}`);
+          }
+
+          // Written before the message is stored; the key is fixed by the media id, so a redelivery
+          // rewrites the same file and one whose insert loses the race leaves a harmless orphan
+          const storageKey = `${whatsappAccountId}/${attachment.id}`;
+          await blobStore.put(storageKey, downloaded.data);
+          media = {
+            mediaId: attachment.id,
+            mimeType: attachment.mime_type || downloaded.mimeType,
+            storageKey,
+            fileName: incomingMessage.document?.filename,
+          };
         }
         content = `[${incomingMessage.type.toUpperCase()}]`;
         break;
+      case "interactive": {
+        const reply = incomingMessage.interactive?.type === "list_reply"
+          ? incomingMessage.interactive.list_reply
+          : incomingMessage.interactive?.button_reply;
+        content = reply?.title || "";
+        replyId = reply?.id;
+        break;
+      }
+      case "button":
+        content = incomingMessage.button?.text || "";
+        replyId = incomingMessage.button?.payload;
+        break;
     }
 
-    const message = await storage.createMessage({
+    // Each customer message (re)opens the 24-hour window from the time it was sent
+    const sentAt = new Date(parseInt(incomingMessage.timestamp, 10) * 1000 || Date.now());
+    const windowExpiresAt = new Date(sentAt.getTime() + CUSTOMER_SERVICE_WINDOW_MS);
+
+    // The unique whatsapp_message_id constraint settles concurrent deliveries of the same message
+    const message = await storage.createInboundMessage({
       conversationId: conversation.id,
       contactId: contact.id,
       whatsappMessageId: incomingMessage.id,
       direction: "inbound",
-      type: incomingMessage.type,
+      type: incomingMessage.type === "button" ? "interactive" : incomingMessage.type,
       content,
-      mediaUrl,
+      replyId,
+      mediaId: media?.mediaId,
+      mediaMimeType: media?.mimeType,
+      mediaStorageKey: media?.storageKey,
+      fileName: media?.fileName,
       status: "delivered",
+    }, {
+      lastMessageAt: new Date(),
+      windowExpiresAt: conversation.windowExpiresAt && conversation.windowExpiresAt > windowExpiresAt
+        ? conversation.windowExpiresAt
+        : windowExpiresAt,
     });
 
-    return { contact, message, conversation };
+    if (!message) {
+      const stored = await storage.getMessageByWhatsappId(incomingMessage.id);
+      if (!stored) {
+        throw new Error(`Message ${incomingMessage.id} conflicted but could not be loaded`);
+      }
+      return this.duplicateResult(stored);
+    }
+
+    return this.completeIncomingMessage(message);
   }
 
+  // Steps after the insert, all safe to repeat when a retried delivery resumes a stored message
+  private async completeIncomingMessage(stored: Message): Promise<IncomingMessageResult> {
+    const { contact, conversation } = await this.duplicateResult(stored);
+    const message = stored.mediaStorageKey && !stored.mediaUrl
+      ? await storage.updateMessage(stored.id, { mediaUrl: mediaRoute(stored.id) })
+      : stored;
+
+    const content = message.type === "text" ? message.content || "" : "";
+    const keyword = content.trim().toLowerCase();
+    const optedOut = OPT_OUT_KEYWORDS.has(keyword) ? true : OPT_IN_KEYWORDS.has(keyword) ? false : contact.optedOut;
+
+    // Keep the last confidently detected language; contacts.preferredLanguage overrides it when replying
+    const detected = content ? detectLanguage(content) : null;
+
+    const updatedContact = await storage.updateContact(contact.id, {
+      lastMessageAt: new Date(),
+      optedOut,
+      language: detected?.language ?? contact.language,
+    });
+
+    return { contact: updatedContact, message, conversation, duplicate: false };
+  }
+
+  private async duplicateResult(message: Message): Promise<IncomingMessageResult> {
+    const contact = message.contactId ? await storage.getContact(message.contactId) : undefined;
+    const conversation = message.conversationId ? await storage.getConversation(message.conversationId) : undefined;
+    if (!contact || !conversation) {
+      throw new Error(`Stored message ${message.id} is missing its contact or conversation`);
+    }
+
+    return { contact, message, conversation, duplicate: true };
+  }
+
+  async processStatusUpdate(
+    statusUpdate: WhatsAppStatusUpdate
+  ): Promise<{ message: Message; conversation: Conversation } | null> {
+    const message = await storage.getMessageByWhatsappId(statusUpdate.id);
+    if (!message || !message.conversationId) {
+      return null;
+    }
+
+    if (!isStatusAdvance(message.status, statusUpdate.status)) {
+      return null;
+    }
+
+    const error = statusUpdate.errors?.[0];
+    const updatedMessage = await storage.updateMessage(message.id, {
+      status: statusUpdate.status,
+      errorCode: error ? String(error.code) : null,
+      errorTitle: error ? error.title : null,
+    });
+
+    const conversation = await storage.getConversation(message.conversationId);
+    if (!conversation) {
+      return null;
+    }
+
+    return { message: updatedMessage, conversation };
+  }
+
+  // Saves the message as pending; the outbound queue delivers it and records the final status
   async processOutgoingMessage(
     conversationId: string,
     contactId: string,
     content: string,
-    type: "text" | "image" | "audio" | "video" | "document" = "text"
+    type: "text" | "image" | "audio" | "video" | "document" | "interactive" | "template" = "text",
+    options: OutgoingOptions = {}
   ): Promise<Message> {
+    const { media, interactive, template, sendAt } = options;
     const contact = await storage.getContact(contactId);
     if (!contact) {
       throw new Error("Contact not found");
     }
 
-    // Send message via WhatsApp API
-    const result = await this.sendTextMessage(contact.phone, content);
-    
-    if (!result.success) {
-      throw new Error(`Failed to send WhatsApp message: ${result.error}`);
+    if (type === "interactive" && !interactive) {
+      throw new Error("An interactive message needs its buttons or list");
+    }
+
+    if (type === "template" && !template) {
+      throw new Error("A template message needs its template and parameters");
+    }
+
+    if (type !== "text" && type !== "interactive" && type !== "template" && !media?.mediaId && !media?.mediaUrl) {
+      throw new Error(`A ${type} message needs an uploaded media id or a media link`);
+    }
+
+    const conversation = await storage.getConversation(conversationId);
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+
+    // Only templates may be sent once the customer service window has closed;
+    // scheduled messages are checked when they fall due since the customer may write again by then
+    if (type !== "template" && !sendAt && getWindowRemainingMs(conversation) === 0) {
+      throw new CustomerServiceWindowError();
     }
 
-    // Save outgoing message
-    const message = await storage.createMessage({
+    let message = await storage.createMessage({
       conversationId,
       contactId,
-      whatsappMessageId: result.messageId,
       direction: "outbound",
       type,
       content,
-      status: "sent",
+      interactive,
+      templateId: template?.templateId,
+      template: template?.payload,
+      mediaId: media?.mediaId,
+      mediaUrl: media?.mediaUrl,
+      mediaMimeType: media?.mimeType,
+      mediaStorageKey: media?.storageKey,
+      fileName: media?.fileName,
+      status: sendAt ? "scheduled" : "pending",
+      sendAt,
     });
 
+    if (media?.storageKey) {
+      message = await storage.updateMessage(message.id, { mediaUrl: mediaRoute(message.id) });
+    }
+
     // Update conversation
-    const conversation = await storage.getConversation(conversationId);
-    if (conversation) {
+    if (!sendAt) {
       await storage.updateConversation(conversationId, {
         lastMessageAt: new Date(),
       });
@@ -223,14 +646,106 @@ export class WhatsAppService {
 
     return message;
   }
+
+  // Delivers a stored outbound message through the Cloud API
+  async sendStoredMessage(message: Message): Promise<SendMessageResult> {
+    const contact = message.contactId ? await storage.getContact(message.contactId) : undefined;
+    if (!contact) {
+      return { success: false, error: "Contact not found", retryable: false };
+    }
+
+    if (!message.type || message.type === "text") {
+      return this.sendTextMessage(contact.phone, message.content || "");
+    }
+
+    if (message.type === "interactive") {
+      return this.sendMessage({
+        messaging_product: "whatsapp",
+        to: contact.phone,
+        type: "interactive",
+        interactive: message.interactive as InteractiveContent,
+      });
+    }
+
+    if (message.type === "template") {
+      return this.sendMessage({
+        messaging_product: "whatsapp",
+        to: contact.phone,
+        type: "template",
+        template: message.template ?? undefined,
+      });
+    }
+
+    // Content doubles as the caption; WhatsApp doesn't support captions on audio
+    const reference = message.mediaId ? { id: message.mediaId } : { link: message.mediaUrl || "" };
+    const caption = message.content || undefined;
+    const payload: WhatsAppMessage = { messaging_product: "whatsapp", to: contact.phone, type: message.type || "text" };
+
+    switch (message.type) {
+      case "image":
+        payload.image = { ...reference, caption };
+        break;
+      case "audio":
+        payload.audio = reference;
+        break;
+      case "video":
+        payload.video = { ...reference, caption };
+        break;
+      case "document":
+        payload.document = { ...reference, caption, filename: message.fileName || undefined };
+        break;
+    }
+
+    return this.sendMessage(payload);
+  }
+}
+
+// Builds and caches one WhatsAppService per WhatsApp account so every business number sends with its own credentials
+export class WhatsAppServiceRegistry {
+  private services = new Map<string, { service: WhatsAppService; accessToken: string; phoneNumberId: string }>();
+  private fallbackService: WhatsAppService;
+
+  constructor(fallbackService: WhatsAppService) {
+    this.fallbackService = fallbackService;
+  }
+
+  forAccount(account: WhatsappAccount): WhatsAppService {
+    const cached = this.services.get(account.id);
+    if (cached && cached.accessToken === account.accessToken && cached.phoneNumberId === account.phoneNumberId) {
+      return cached.service;
+    }
+
+    const service = new WhatsAppService(account.accessToken, account.phoneNumberId);
+    this.services.set(account.id, {
+      service,
+      accessToken: account.accessToken,
+      phoneNumberId: account.phoneNumberId,
+    });
+    return service;
+  }
+
+  // Falls back to the env-configured service for records that predate per-account credentials
+  async forAccountId(whatsappAccountId: string | null | undefined): Promise<WhatsAppService> {
+    if (!whatsappAccountId) {
+      return this.fallbackService;
+    }
+
+    const account = await storage.getWhatsappAccount(whatsappAccountId);
+    return account ? this.forAccount(account) : this.fallbackService;
+  }
+
+  async forConversation(conversationId: string): Promise<WhatsAppService> {
+    const conversation = await storage.getConversation(conversationId);
+    return this.forAccountId(conversation?.whatsappAccountId);
+  }
 }
 
 // Chatbot response system
 export class ChatbotProcessor {
-  private whatsappService: WhatsAppService;
+  private whatsappServices: WhatsAppServiceRegistry;
 
-  constructor(whatsappService: WhatsAppService) {
-    this.whatsappService = whatsappService;
+  constructor(whatsappServices: WhatsAppServiceRegistry) {
+    this.whatsappServices = whatsappServices;
   }
 
   async processBotResponse(
@@ -239,35 +754,136 @@ export class ChatbotProcessor {
     message: Message,
     conversation: Conversation
   ): Promise<boolean> {
+    // Once handed to a human the bot stays quiet until an agent returns the conversation
+    if (conversation.status === "handoff" || conversation.status === "resolved") {
+      return false;
+    }
+
     const chatbot = await storage.getChatbot(chatbotId);
     if (!chatbot || !chatbot.isActive) {
       return false;
     }
 
     const startTime = Date.now();
-    let response = await this.generateResponse(chatbot, message.content || "");
-    
-    if (!response) {
+    const language = contact.preferredLanguage || contact.language;
+    const flow = localizeFlow(resolveFlow(chatbot), language);
+
+    const account = conversation.whatsappAccountId ? await storage.getWhatsappAccount(conversation.whatsappAccountId) : undefined;
+    const status = account ? businessStatus(account) : { open: true, opensAt: null };
+    const business = { open: status.open, opensAt: account ? formatOpening(status.opensAt, account, language) : "" };
+
+    // Reply routes answer a tapped button or list row directly; everything else runs through the flow
+    const routedReply = message.replyId ? flow.replyRoutes?.[message.replyId] : undefined;
+    let replies: BotReply[];
+    let flowEscalated = false;
+    let intent: string | null = null;
+    let confidence: number | null = null;
+    let knowledgeArticleId: string | null = null;
+    let llmUsage: { promptTokens: number | null; completionTokens: number | null; llmLatencyMs: number } | null = null;
+
+    if (routedReply) {
+      replies = [routedReply];
+      intent = message.replyId;
+      confidence = 1;
+    } else {
+      // An expired session starts over, as if the contact had never talked to this bot
+      const session = await storage.getBotSession(conversation.id);
+      const state = session && session.chatbotId === chatbot.id && (!session.expiresAt || session.expiresAt > new Date())
+        ? { node: session.currentNode, variables: session.variables || {} }
+        : null;
+
+      const result = runFlow(flow, state, { text: message.content || "", replyId: message.replyId }, { contact, chatbot, business });
+      const timeoutMinutes = flow.sessionTimeoutMinutes || DEFAULT_SESSION_TIMEOUT_MINUTES;
+      await storage.saveBotSession({
+        conversationId: conversation.id,
+        chatbotId: chatbot.id,
+        currentNode: result.node,
+        variables: result.variables,
+        expiresAt: new Date(Date.now() + timeoutMinutes * 60 * 1000),
+      });
+
+      // Collected slots outlive the session so later flows, templates and agents can use them
+      if (Object.keys(result.slots).length > 0) {
+        contact = await storage.updateContact(contact.id, {
+          metadata: { ...((contact.metadata || {}) as Record<string, unknown>), ...result.slots },
+        });
+      }
+
+      replies = result.replies;
+      flowEscalated = result.escalate;
+      intent = result.intent;
+      confidence = result.confidence;
+
+      // Before falling back to a generic reply, look for an answer in the bot's knowledge base
+      if ((intent === "start" || intent === "fallback") && message.content) {
+        const answer = await findKnowledgeAnswer(chatbot.id, message.content, {
+          language,
+          defaultLanguage: flow.defaultLocale,
+          minScore: flow.knowledgeMinScore,
+        });
+        if (answer) {
+          replies = [{ text: answer.article.content }];
+          intent = "knowledge";
+          confidence = answer.score;
+          knowledgeArticleId = answer.article.id;
+        } else if (flow.llm) {
+          // Last resort before the generic reply; on timeout or error the flow's reply stands
+          const generated = await llmResponder.reply(flow.llm, {
+            conversationId: conversation.id,
+            messageId: message.id,
+            question: message.content,
+            language,
+            intentThreshold: flow.intentThreshold,
+            synonyms: flow.synonyms,
+          });
+          if (generated) {
+            replies = [{ text: generated.text }];
+            intent = "llm";
+            confidence = null;
+            llmUsage = {
+              promptTokens: generated.promptTokens,
+              completionTokens: generated.completionTokens,
+              llmLatencyMs: generated.latencyMs,
+            };
+          }
+        }
+      }
+    }
+
+    if (replies.length === 0) {
       return false;
     }
 
     // Check if should escalate to human
-    const shouldEscalate = this.shouldEscalateToHuman(message.content || "", chatbot);
+    const escalation = this.shouldEscalateToHuman(message.content || "", flow);
+    const shouldEscalate = flowEscalated || Boolean(escalation);
+    if (escalation && (confidence === null || escalation.confidence >= confidence)) {
+      intent = escalation.intent;
+      confidence = escalation.confidence;
+    }
     
     if (shouldEscalate) {
-      response += "\n\nUn agente humano se pondrá en contacto contigo pronto.";
+      const suffix = interpolate(handoffMessageFor(flow, language, business.open), { opensAt: business.opensAt });
+      const last = replies[replies.length - 1];
+      replies = last.text && !last.interactive
+        ? [...replies.slice(0, -1), { text: `${last.text}\n\n${suffix}` }]
+        : [...replies, { text: suffix }];
     }
 
-    // Send bot response
-    const botMessage = await this.whatsappService.processOutgoingMessage(
-      conversation.id,
-      contact.id,
-      response,
-      "text"
-    );
-
-    // Mark as bot message
-    await storage.updateMessage(botMessage.id, { isFromBot: true });
+    // Send bot response from the number the customer wrote to
+    const service = await this.whatsappServices.forAccountId(conversation.whatsappAccountId);
+    for (const reply of replies) {
+      const botMessage = await service.processOutgoingMessage(
+        conversation.id,
+        contact.id,
+        reply.text ?? reply.interactive?.body.text ?? "",
+        reply.interactive ? "interactive" : "text",
+        { interactive: reply.interactive }
+      );
+
+      // Mark as bot message
+      await storage.updateMessage(botMessage.id, { isFromBot: true });
+    }
 
     // Record interaction for analytics
     await storage.createBotInteraction({
@@ -275,94 +891,33 @@ export class ChatbotProcessor {
       contactId: contact.id,
       messageId: message.id,
       trigger: message.content || "",
-      response,
+      intent,
+      confidence,
+      knowledgeArticleId,
+      response: replies.map(reply => reply.text ?? reply.interactive?.body.text).join("\n\n"),
       wasEscalated: shouldEscalate,
       responseTime: Date.now() - startTime,
+      ...llmUsage,
     });
 
-    return true;
-  }
-
-  private async generateResponse(chatbot: any, messageContent: string): Promise<string | null> {
-    const content = messageContent.toLowerCase();
-    
-    // Basic response templates based on chatbot type
-    const templates = {
-      corporate: {
-        greetings: ["hola", "buenos días", "buenas tardes", "buenas noches"],
-        pricing: ["precio", "costo", "tarifa", "cuánto cuesta"],
-        info: ["información", "info", "detalles", "más info"],
-        support: ["ayuda", "soporte", "problema", "asistencia"],
-      },
-      ecommerce: {
-        products: ["productos", "catálogo", "qué venden", "disponible"],
-        orders: ["pedido", "orden", "comprar", "ordenar"],
-        shipping: ["envío", "entrega", "delivery", "tiempo"],
-        returns: ["devolución", "cambio", "garantía", "reembolso"],
-      },
-      healthcare: {
-        appointments: ["cita", "turno", "consulta", "agenda"],
-        services: ["servicios", "tratamientos", "especialidades"],
-        hours: ["horario", "horarios", "cuándo", "abierto"],
-        emergency: ["emergencia", "urgente", "urgencia"],
-      },
-    };
-
-    const template = templates[chatbot.template as keyof typeof templates];
-    if (!template) {
-      return "Gracias por tu mensaje. Un representante se pondrá en contacto contigo pronto.";
-    }
-
-    // Check for greeting
-    if (template.greetings?.some(greeting => content.includes(greeting))) {
-      return `¡Hola! Soy el asistente virtual de ${chatbot.name}. ¿En qué puedo ayudarte hoy?`;
-    }
-
-    // Template-specific responses
-    switch (chatbot.template) {
-      case "corporate":
-        if (template.pricing?.some(word => content.includes(word))) {
-          return "Tenemos varios planes disponibles:\n\n📊 Plan Básico: $299/mes\n🚀 Plan Professional: $599/mes\n⭐ Plan Enterprise: $999/mes\n\n¿Te gustaría más información sobre algún plan específico?";
-        }
-        if (template.info?.some(word => content.includes(word))) {
-          return "Somos una empresa líder en soluciones empresariales. Ofrecemos servicios de consultoría, implementación y soporte técnico. ¿Sobre qué aspecto te gustaría saber más?";
-        }
-        break;
-
-      case "ecommerce":
-        if (template.products?.some(word => content.includes(word))) {
-          return "Contamos con un amplio catálogo de productos. Puedes ver todos nuestros productos en nuestro sitio web o pregúntame por una categoría específica. ¿Qué tipo de producto buscas?";
-        }
-        if (template.orders?.some(word => content.includes(word))) {
-          return "Para realizar un pedido puedes:\n1. Visitar nuestro sitio web\n2. Llamar al 123-456-7890\n3. Enviarme los detalles por aquí\n\n¿Cómo prefieres proceder?";
-        }
-        break;
-
-      case "healthcare":
-        if (template.appointments?.some(word => content.includes(word))) {
-          return "Para agendar una cita puedes:\n📞 Llamar al 123-456-7890\n💻 Usar nuestro portal en línea\n📱 Enviarme tus datos aquí\n\nNuestros horarios: Lun-Vie 8:00-18:00, Sáb 8:00-14:00";
-        }
-        if (template.emergency?.some(word => content.includes(word))) {
-          return "🚨 EMERGENCIA: Si tienes una emergencia médica, llama inmediatamente al 911 o dirígete al hospital más cercano.\n\nPara urgencias médicas no críticas: 123-456-7890";
-        }
-        break;
+    if (shouldEscalate) {
+      await handoffQueue.enqueue(conversation, escalation ? `keyword: ${escalation.keyword}` : "flow", {
+        contact,
+        intent,
+        text: message.content,
+      });
     }
 
-    // Default response
-    return "Gracias por tu mensaje. ¿Podrías ser más específico sobre lo que necesitas? Estoy aquí para ayudarte.";
+    return true;
   }
 
-  private shouldEscalateToHuman(messageContent: string, chatbot: any): boolean {
-    const escalationKeywords = [
-      "hablar con persona", "agente humano", "representante", "supervisor",
-      "queja", "reclamo", "problema serio", "no entiendo", "mal servicio"
-    ];
-
-    const content = messageContent.toLowerCase();
-    return escalationKeywords.some(keyword => content.includes(keyword));
+  private shouldEscalateToHuman(messageContent: string, flow: FlowDefinition): IntentMatch | null {
+    const match = bestIntent(messageContent, [{ name: "escalation", keywords: escalationKeywordsFor(flow) }], { synonyms: flow.synonyms });
+    return match && match.confidence >= (flow.intentThreshold ?? DEFAULT_INTENT_THRESHOLD) ? match : null;
   }
 }
 
 // Export singleton instances
 export const whatsappService = new WhatsAppService();
-export const chatbotProcessor = new ChatbotProcessor(whatsappService);
+export const whatsappServices = new WhatsAppServiceRegistry(whatsappService);
+export const chatbotProcessor = new ChatbotProcessor(whatsappServices);